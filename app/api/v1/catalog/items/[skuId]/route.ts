@@ -0,0 +1,18 @@
+import { proxyToBackend } from "@/lib/backendProxy";
+
+interface RouteContext {
+  params: Promise<{ skuId: string }>;
+}
+
+async function backendPath({ params }: RouteContext): Promise<string> {
+  const { skuId } = await params;
+  return `/api/v1/catalog/items/${encodeURIComponent(skuId)}`;
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  return proxyToBackend(request, await backendPath(context));
+}
+
+export async function DELETE(request: Request, context: RouteContext) {
+  return proxyToBackend(request, await backendPath(context));
+}
@@ -0,0 +1,5 @@
+import { proxyToBackend } from "@/lib/backendProxy";
+
+export async function POST(request: Request) {
+  return proxyToBackend(request, "/api/v1/catalog/upsert");
+}
@@ -0,0 +1,18 @@
+import { proxyToBackend } from "@/lib/backendProxy";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function backendPath({ params }: RouteContext): Promise<string> {
+  const { id } = await params;
+  return `/api/v1/sessions/${encodeURIComponent(id)}`;
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  return proxyToBackend(request, await backendPath(context));
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  return proxyToBackend(request, await backendPath(context));
+}
@@ -0,0 +1,10 @@
+import { proxyToBackend } from "@/lib/backendProxy";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  return proxyToBackend(request, `/api/v1/sessions/${encodeURIComponent(id)}/search`);
+}
@@ -1,22 +1,53 @@
 "use client";
 
+import { useState } from "react";
 import { CatalogManager } from "@/components/CatalogManager";
+import { CatalogImport } from "@/components/CatalogImport";
+import { CatalogBrowser } from "@/components/CatalogBrowser";
+import { useLocale } from "@/components/LocaleProvider";
+import { cn } from "@/lib/utils";
+
+type CatalogMode = "single" | "bulk" | "browse";
+
+const CATALOG_MODES: CatalogMode[] = ["single", "bulk", "browse"];
 
 export default function CatalogPage() {
+  const { t } = useLocale();
+  const [mode, setMode] = useState<CatalogMode>("single");
+
   return (
     <div className="container mx-auto px-4 py-12">
       <div className="max-w-4xl mx-auto">
         <div className="mb-8">
           <h1 className="text-4xl font-bold text-neutral-900 mb-2">
-            Catalog Management
+            {t("catalogPage.title")}
           </h1>
           <p className="text-neutral-600">
-            Add products to the catalog by uploading product images
+            {t("catalogPage.subtitle")}
           </p>
         </div>
-        <CatalogManager />
+        <div className="flex space-x-1 mb-6 border-b border-neutral-200" role="tablist">
+          {CATALOG_MODES.map((value) => (
+            <button
+              key={value}
+              role="tab"
+              aria-selected={mode === value}
+              onClick={() => setMode(value)}
+              className={cn(
+                "px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors",
+                mode === value
+                  ? "border-primary-600 text-primary-700"
+                  : "border-transparent text-neutral-600 hover:text-neutral-900"
+              )}
+            >
+              {t(`catalogPage.${value}`)}
+            </button>
+          ))}
+        </div>
+        {mode === "single" && <CatalogManager />}
+        {mode === "bulk" && <CatalogImport />}
+        {mode === "browse" && <CatalogBrowser />}
       </div>
     </div>
   );
 }
-
@@ -0,0 +1,22 @@
+"use client";
+
+import { ProductComparison } from "@/components/ProductComparison";
+import { useLocale } from "@/components/LocaleProvider";
+
+export default function ComparePage() {
+  const { t } = useLocale();
+
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold text-neutral-900 mb-2">
+          {t("comparePage.title")}
+        </h1>
+        <p className="text-neutral-600">
+          {t("comparePage.subtitle")}
+        </p>
+      </div>
+      <ProductComparison />
+    </div>
+  );
+}
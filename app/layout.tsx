@@ -2,6 +2,12 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import { Navigation } from "@/components/Navigation";
+import { BackendStatusProvider, BackendStatusBanner } from "@/components/BackendStatusProvider";
+import { ComparisonProvider, ComparisonTray } from "@/components/ComparisonProvider";
+import { CurrencyProvider } from "@/components/CurrencyProvider";
+import { FavoritesProvider } from "@/components/FavoritesProvider";
+import { LocaleProvider } from "@/components/LocaleProvider";
+import { MoodboardDropZone } from "@/components/Moodboard";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -18,8 +24,23 @@ export default function RootLayout({
   return (
     <html lang="en" suppressHydrationWarning>
       <body className={inter.className} suppressHydrationWarning>
-        <Navigation />
-        <main className="min-h-screen pt-16">{children}</main>
+        <LocaleProvider>
+          <BackendStatusProvider>
+            <CurrencyProvider>
+              <FavoritesProvider>
+                <ComparisonProvider>
+                  <Navigation />
+                  <main className="min-h-screen pt-16 print:pt-0">
+                    <BackendStatusBanner />
+                    {children}
+                  </main>
+                  <ComparisonTray />
+                  <MoodboardDropZone />
+                </ComparisonProvider>
+              </FavoritesProvider>
+            </CurrencyProvider>
+          </BackendStatusProvider>
+        </LocaleProvider>
       </body>
     </html>
   );
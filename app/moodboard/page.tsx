@@ -0,0 +1,22 @@
+"use client";
+
+import { Moodboard } from "@/components/Moodboard";
+import { useLocale } from "@/components/LocaleProvider";
+
+export default function MoodboardPage() {
+  const { t } = useLocale();
+
+  return (
+    <div className="container mx-auto px-4 py-12 print:p-0">
+      <div className="mb-8 print:hidden">
+        <h1 className="text-4xl font-bold text-neutral-900 mb-2">
+          {t("moodboardPage.title")}
+        </h1>
+        <p className="text-neutral-600">
+          {t("moodboardPage.subtitle")}
+        </p>
+      </div>
+      <Moodboard />
+    </div>
+  );
+}
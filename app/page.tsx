@@ -1,15 +1,20 @@
+"use client";
+
 import { SearchInterface } from "@/components/SearchInterface";
+import { useLocale } from "@/components/LocaleProvider";
 
 export default function Home() {
+  const { t } = useLocale();
+
   return (
     <div className="w-full h-screen flex flex-col overflow-hidden">
       <div className="flex-shrink-0 px-6 py-4 border-b border-neutral-200">
         <div className="text-center">
           <h1 className="text-3xl font-bold text-neutral-900 mb-2">
-            Interior Visual Search
+            {t("home.title")}
           </h1>
           <p className="text-sm text-neutral-600">
-            Upload a room image to find exact product matches and visually similar alternatives
+            {t("home.subtitle")}
           </p>
         </div>
       </div>
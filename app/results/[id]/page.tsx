@@ -0,0 +1,241 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { SearchResults } from "@/components/SearchResults";
+import { useLocale } from "@/components/LocaleProvider";
+import { categoryLabel } from "@/lib/categories";
+import { localeTag } from "@/lib/i18n";
+import { isAbortError, rerunSearchSession, SearchHit } from "@/lib/api";
+import {
+  EMPTY_FILTERS,
+  FILTER_DEBOUNCE_MS,
+  HitFilters,
+  MAX_TOP_K,
+  mergeHits,
+  SEARCH_PAGE_SIZE,
+  toSearchFilters,
+} from "@/lib/hits";
+import { getSearchSession, SearchSession, updateSearchSessionHits } from "@/lib/searchSessions";
+
+export default function SavedResultsPage() {
+  const { id } = useParams<{ id: string }>();
+  const { t, locale } = useLocale();
+  // Tagged with the id it was loaded for, so a new id shows the loader again
+  const [loaded, setLoaded] = useState<{
+    id: string;
+    session: SearchSession | null;
+    /** Why the session could not be loaded; null when it does not exist */
+    error: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSearchSession(id).then(
+      (session) => {
+        if (!cancelled) setLoaded({ id, session, error: null });
+      },
+      (err) => {
+        if (!cancelled) {
+          setLoaded({ id, session: null, error: err instanceof Error ? err.message : "" });
+        }
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  if (loaded?.id !== id) {
+    return (
+      <div className="container mx-auto px-4 py-12">
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <div className="text-center">
+            <Loader2 className="w-12 h-12 animate-spin text-primary-600 mx-auto mb-4" />
+            <p className="text-neutral-600">{t("resultsPage.loading")}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const session = loaded.session;
+  if (!session) {
+    return (
+      <div className="container mx-auto px-4 py-12">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">{loaded.error === null ? t("resultsPage.sessionMissing") : loaded.error || t("resultsPage.loadFailed")}</p>
+          <Link href="/" className="text-primary-600 hover:text-primary-700 underline">
+            {t("resultsPage.back")}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const savedAt = new Intl.DateTimeFormat(localeTag(locale), {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(session.createdAt);
+
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <div className="flex items-center space-x-4 mb-8">
+        {session.thumbnail && (
+          <img
+            src={session.thumbnail}
+            alt={t("resultsPage.queryImage")}
+            className="w-24 h-24 object-contain rounded-lg border border-neutral-200 bg-neutral-50"
+          />
+        )}
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-900">{t("resultsPage.sessionTitle")}</h1>
+          <p className="text-sm text-neutral-600 mt-1">
+            {t("search.showingFor")}{" "}
+            <span className="font-medium">
+              {session.category ? categoryLabel(session.category, locale) : t("search.anyCategory")}
+            </span>
+            {session.selection?.drawn && <span> {t("search.drawnRegion")}</span>}
+          </p>
+          <p className="text-xs text-neutral-500 mt-1">{t("resultsPage.savedAt", { date: savedAt })}</p>
+        </div>
+      </div>
+      <SessionResults session={session} />
+    </div>
+  );
+}
+
+/**
+ * The saved hits, re-queried on the backend while filters are set so the
+ * whole page is spent on matching products. Loading more re-runs the
+ * session with a larger top_k and appends the hits not already shown.
+ */
+function SessionResults({ session }: { session: SearchSession }) {
+  const { t } = useLocale();
+  const [filters, setFilters] = useState<HitFilters>(EMPTY_FILTERS);
+  // Tagged with the filters it was fetched for; hits are null if the query failed
+  const [refetched, setRefetched] = useState<{
+    key: string;
+    hits: SearchHit[] | null;
+    message: string | null;
+    searchedAt: number;
+  } | null>(null);
+  const searchFilters = toSearchFilters(filters);
+  const filtersKey = searchFilters ? JSON.stringify(searchFilters) : null;
+
+  useEffect(() => {
+    if (!filtersKey) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      rerunSearchSession(session.id, {
+        top_k: session.topK ?? SEARCH_PAGE_SIZE,
+        filters: JSON.parse(filtersKey),
+        signal: controller.signal,
+      }).then(
+        (response) =>
+          setRefetched({
+            key: filtersKey,
+            hits: response.hits,
+            message: response.message ?? null,
+            searchedAt: Date.now(),
+          }),
+        (err) => {
+          // The saved hits stay filtered locally
+          if (!isAbortError(err)) setRefetched({ key: filtersKey, hits: null, message: null, searchedAt: Date.now() });
+        }
+      );
+    }, FILTER_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [filtersKey, session.id, session.topK]);
+
+  // Deeper pages, tagged with the filters they were fetched for ("" for none)
+  const [more, setMore] = useState<{
+    key: string;
+    topK: number;
+    hits: SearchHit[];
+    hasMore: boolean;
+    searchedAt: number;
+  } | null>(null);
+  const [loadingKey, setLoadingKey] = useState<string | null>(null);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const loadMoreControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => loadMoreControllerRef.current?.abort(), []);
+
+  const current = filtersKey && refetched?.key === filtersKey ? refetched : null;
+  const requeried = current?.hits ? current : null;
+
+  const viewKey = filtersKey ?? "";
+  const extra = more?.key === viewKey ? more : null;
+  // While filters are only applied locally there is no backend page to extend
+  const pageHits = filtersKey ? requeried?.hits ?? null : session.hits;
+  const hits = extra?.hits ?? pageHits ?? session.hits;
+  const topK = extra?.topK ?? session.topK ?? SEARCH_PAGE_SIZE;
+  const hasMore = extra ? extra.hasMore : pageHits !== null && pageHits.length >= topK && topK < MAX_TOP_K;
+
+  const handleLoadMore = () => {
+    const key = viewKey;
+    const shown = hits;
+    const nextTopK = Math.min(topK + SEARCH_PAGE_SIZE, MAX_TOP_K);
+    loadMoreControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadMoreControllerRef.current = controller;
+    setLoadingKey(key);
+    setLoadMoreError(null);
+
+    rerunSearchSession(session.id, {
+      top_k: nextTopK,
+      filters: filtersKey ? JSON.parse(filtersKey) : undefined,
+      signal: controller.signal,
+    })
+      .then(
+        (response) => {
+          const merged = mergeHits(shown, response.hits);
+          setMore({
+            key,
+            topK: nextTopK,
+            hits: merged,
+            hasMore: response.hits.length >= nextTopK && nextTopK < MAX_TOP_K,
+            searchedAt: Date.now(),
+          });
+          // Unfiltered pages also deepen the saved link
+          if (!key) void updateSearchSessionHits(session.id, merged, nextTopK);
+        },
+        (err) => {
+          if (!isAbortError(err)) setLoadMoreError(err instanceof Error ? err.message : t("search.errorLoadMore"));
+        }
+      )
+      .finally(() => {
+        if (loadMoreControllerRef.current === controller) {
+          loadMoreControllerRef.current = null;
+          setLoadingKey(null);
+        }
+      });
+  };
+
+  return (
+    <>
+      <SearchResults
+        hits={hits}
+        facetHits={more?.key === "" ? more.hits : session.hits}
+        message={requeried ? requeried.message : session.message}
+        onFiltersChange={setFilters}
+        filtering={filtersKey !== null && !current}
+        onLoadMore={handleLoadMore}
+        hasMore={hasMore}
+        loadingMore={loadingKey === viewKey}
+        exportContext={{
+          category: session.category,
+          topK: extra?.topK ?? session.topK ?? null,
+          searchedAt: extra?.searchedAt ?? requeried?.searchedAt ?? session.createdAt,
+        }}
+      />
+      {loadMoreError && <p className="mt-4 text-sm text-center text-red-600">{loadMoreError}</p>}
+    </>
+  );
+}
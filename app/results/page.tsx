@@ -5,6 +5,7 @@ import { useEffect, useState, Suspense } from "react";
 import { SearchResults } from "@/components/SearchResults";
 import { SearchHit } from "@/lib/api";
 import { Loader2 } from "lucide-react";
+import { useLocale } from "@/components/LocaleProvider";
 
 interface ResultsData {
   hits: SearchHit[];
@@ -13,6 +14,7 @@ interface ResultsData {
 
 function ResultsContent() {
   const searchParams = useSearchParams();
+  const { t } = useLocale();
   const [results, setResults] = useState<ResultsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -29,15 +31,15 @@ function ResultsContent() {
           setResults(parsed);
         }
       } catch (e) {
-        setError("Failed to parse results");
+        setError(t("resultsPage.parseError"));
       } finally {
         setLoading(false);
       }
     } else {
-      setError("No results found");
+      setError(t("resultsPage.missing"));
       setLoading(false);
     }
-  }, [searchParams]);
+  }, [searchParams, t]);
 
   if (loading) {
     return (
@@ -45,7 +47,7 @@ function ResultsContent() {
         <div className="flex items-center justify-center min-h-[60vh]">
           <div className="text-center">
             <Loader2 className="w-12 h-12 animate-spin text-primary-600 mx-auto mb-4" />
-            <p className="text-neutral-600">Loading results...</p>
+            <p className="text-neutral-600">{t("resultsPage.loading")}</p>
           </div>
         </div>
       </div>
@@ -56,12 +58,12 @@ function ResultsContent() {
     return (
       <div className="container mx-auto px-4 py-12">
         <div className="text-center">
-          <p className="text-red-600 mb-4">{error || "No results available"}</p>
+          <p className="text-red-600 mb-4">{error || t("resultsPage.unavailable")}</p>
           <a
             href="/"
             className="text-primary-600 hover:text-primary-700 underline"
           >
-            Return to search
+            {t("resultsPage.back")}
           </a>
         </div>
       </div>
@@ -76,6 +78,8 @@ function ResultsContent() {
 }
 
 export default function ResultsPage() {
+  const { t } = useLocale();
+
   return (
     <Suspense
       fallback={
@@ -83,7 +87,7 @@ export default function ResultsPage() {
           <div className="flex items-center justify-center min-h-[60vh]">
             <div className="text-center">
               <Loader2 className="w-12 h-12 animate-spin text-primary-600 mx-auto mb-4" />
-              <p className="text-neutral-600">Loading results...</p>
+              <p className="text-neutral-600">{t("resultsPage.loading")}</p>
             </div>
           </div>
         </div>
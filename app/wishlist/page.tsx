@@ -0,0 +1,24 @@
+"use client";
+
+import { Wishlist } from "@/components/Wishlist";
+import { useLocale } from "@/components/LocaleProvider";
+
+export default function WishlistPage() {
+  const { t } = useLocale();
+
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-neutral-900 mb-2">
+            {t("wishlistPage.title")}
+          </h1>
+          <p className="text-neutral-600">
+            {t("wishlistPage.subtitle")}
+          </p>
+        </div>
+        <Wishlist />
+      </div>
+    </div>
+  );
+}
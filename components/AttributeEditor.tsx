@@ -0,0 +1,311 @@
+"use client";
+
+import { useId, useState } from "react";
+import { Braces, CheckCircle, ListChecks, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DISPLAY_CURRENCIES } from "@/lib/currency";
+import {
+  AttributeDraft,
+  AttributeField,
+  AttributeIssue,
+  AttributeKey,
+  attributeFields,
+  BASE_UNITS,
+  draftFromAttributes,
+  draftFromJson,
+  fromBaseUnit,
+  toBaseUnit,
+  Unit,
+  UNITS,
+  validateAttributes,
+} from "@/lib/attributeSchemas";
+import { useLocale } from "./LocaleProvider";
+
+type EditorMode = "form" | "json";
+
+const FIELD_CLASS_NAME =
+  "w-full px-3 py-1.5 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none text-sm";
+
+/**
+ * Edit catalog attributes as typed fields from the category's schema, or
+ * as raw JSON. Both views edit the same draft, so switching keeps changes.
+ */
+export function AttributeEditor({
+  category,
+  draft,
+  onChange,
+  error,
+}: {
+  category: string;
+  draft: AttributeDraft;
+  onChange: (draft: AttributeDraft) => void;
+  /** Shown under the editor, e.g. the backend rejecting the attributes */
+  error?: string | null;
+}) {
+  const { t } = useLocale();
+  const [mode, setMode] = useState<EditorMode>("form");
+  const [units, setUnits] = useState<Partial<Record<AttributeKey, Unit>>>({});
+
+  const fields = attributeFields(category);
+  const issues = validateAttributes(category, draft.attributes);
+  const otherKeys = Object.keys(draft.attributes).filter((key) => !fields.some((field) => field.key === key));
+
+  const setAttribute = (key: string, value: unknown) => {
+    const next = { ...draft.attributes };
+    if (value === undefined || value === "") {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(draftFromAttributes(next));
+  };
+
+  const modeButton = (target: EditorMode, Icon: typeof Braces) => (
+    <button
+      type="button"
+      onClick={() => setMode(target)}
+      disabled={target === "form" && draft.jsonInvalid}
+      aria-pressed={mode === target}
+      title={target === "form" && draft.jsonInvalid ? t("attributes.fixJsonFirst") : undefined}
+      className={cn(
+        "flex items-center space-x-1 px-2 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
+        mode === target ? "bg-white text-neutral-900 shadow-sm" : "text-neutral-600 hover:text-neutral-900"
+      )}
+    >
+      <Icon className="w-3 h-3" />
+      <span>{t(`attributes.mode.${target}`)}</span>
+    </button>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-neutral-700">
+          {t("catalog.attributes")} <span className="text-neutral-500 text-xs">{t("catalog.optional")}</span>
+        </label>
+        <div className="flex p-0.5 bg-neutral-100 rounded-lg">
+          {modeButton("form", ListChecks)}
+          {modeButton("json", Braces)}
+        </div>
+      </div>
+
+      {mode === "form" ? (
+        <div className="space-y-3">
+          {!category && <p className="text-xs text-neutral-500">{t("attributes.chooseCategory")}</p>}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {fields.map((field) => (
+              <AttributeInput
+                key={field.key}
+                field={field}
+                value={draft.attributes[field.key]}
+                unit={field.type === "measure" ? units[field.key] ?? BASE_UNITS[field.quantity] : undefined}
+                issue={issues[field.key]}
+                onChange={(value) => setAttribute(field.key, value)}
+                onUnitChange={(unit) => setUnits((current) => ({ ...current, [field.key]: unit }))}
+              />
+            ))}
+          </div>
+          {otherKeys.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-neutral-600 mb-1">{t("attributes.other")}</p>
+              <ul className="space-y-1">
+                {otherKeys.map((key) => (
+                  <li
+                    key={key}
+                    className="flex items-center justify-between gap-2 px-3 py-1.5 bg-neutral-50 rounded-lg text-sm"
+                  >
+                    <span className="min-w-0 truncate" dir="ltr">
+                      <span className="font-medium text-neutral-700">{key}</span>
+                      <span className="text-neutral-500">: {JSON.stringify(draft.attributes[key])}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setAttribute(key, undefined)}
+                      className="p-0.5 rounded hover:bg-neutral-200"
+                      aria-label={t("attributes.remove", { key })}
+                    >
+                      <X className="w-3.5 h-3.5 text-neutral-500" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-1 text-xs text-neutral-500">{t("attributes.otherHint")}</p>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div>
+          <textarea
+            value={draft.json}
+            onChange={(e) => onChange(draftFromJson(e.target.value, draft))}
+            placeholder='{"color": "brown", "material": "wood", "width_cm": 160}'
+            rows={6}
+            dir="ltr"
+            className={cn(
+              "w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none font-mono text-sm",
+              draft.jsonInvalid ? "border-red-300 bg-red-50" : "border-neutral-300"
+            )}
+          />
+          {draft.jsonInvalid ? (
+            <p className="mt-1 text-sm text-red-600">{t("attributes.invalidJson")}</p>
+          ) : (
+            draft.json.trim() && (
+              <p className="mt-1 text-sm text-green-600 flex items-center space-x-1">
+                <CheckCircle className="w-4 h-4" />
+                <span>{t("attributes.validJson")}</span>
+              </p>
+            )
+          )}
+          {Object.keys(issues).length > 0 && (
+            <p className="mt-1 text-sm text-red-600">{t("attributes.jsonIssues")}</p>
+          )}
+          <p className="mt-1 text-xs text-neutral-500">{t("attributes.jsonHint")}</p>
+        </div>
+      )}
+
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * One schema field. Measurements are entered in the chosen unit and
+ * stored in the base unit; the typed text is kept while it still matches
+ * the stored value, so converting back never rewrites what is being typed.
+ */
+function AttributeInput({
+  field,
+  value,
+  unit,
+  issue,
+  onChange,
+  onUnitChange,
+}: {
+  field: AttributeField;
+  value: unknown;
+  unit?: Unit;
+  issue?: AttributeIssue;
+  onChange: (value: unknown) => void;
+  onUnitChange: (unit: Unit) => void;
+}) {
+  const { t } = useLocale();
+  const listId = useId();
+  const className = cn(FIELD_CLASS_NAME, issue ? "border-red-300 bg-red-50" : "border-neutral-300");
+  const numberValue = typeof value === "number" && Number.isFinite(value) ? value : undefined;
+  const readNumber = (input: string) => (input === "" ? undefined : Number(input));
+  const [typed, setTyped] = useState<{ text: string; value: unknown; unit?: Unit } | null>(null);
+
+  let control: React.ReactNode;
+  switch (field.type) {
+    case "measure": {
+      const quantity = field.quantity;
+      const selected = unit ?? BASE_UNITS[quantity];
+      const text =
+        typed && typed.value === value && typed.unit === selected
+          ? typed.text
+          : numberValue === undefined
+            ? ""
+            : String(fromBaseUnit(numberValue, quantity, selected));
+      control = (
+        <div className="flex gap-2">
+          <input
+            type="number"
+            step="any"
+            min={0}
+            dir="ltr"
+            value={text}
+            onChange={(e) => {
+              const input = readNumber(e.target.value);
+              const next = input === undefined ? undefined : toBaseUnit(input, quantity, selected);
+              setTyped({ text: e.target.value, value: next, unit: selected });
+              onChange(next);
+            }}
+            className={className}
+          />
+          <select
+            value={selected}
+            onChange={(e) => onUnitChange(e.target.value as Unit)}
+            aria-label={t("attributes.unit")}
+            className={cn(FIELD_CLASS_NAME, "w-auto border-neutral-300")}
+          >
+            {(Object.keys(UNITS[quantity]) as Unit[]).map((option) => (
+              <option key={option} value={option}>
+                {t(`attributes.units.${option}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+      );
+      break;
+    }
+    case "number":
+      control = (
+        <input
+          type="number"
+          step={field.integer ? 1 : "any"}
+          min={field.min}
+          max={field.max}
+          dir="ltr"
+          value={numberValue ?? ""}
+          onChange={(e) => onChange(readNumber(e.target.value))}
+          className={className}
+        />
+      );
+      break;
+    case "enum":
+    case "currency": {
+      const choices =
+        field.type === "enum"
+          ? field.options.map((option) => ({ value: option, label: t(`attributes.option.${option}`) }))
+          : DISPLAY_CURRENCIES.map((code) => ({ value: code, label: code }));
+      const current = value === undefined || value === null ? "" : String(value);
+      control = (
+        <select value={current} onChange={(e) => onChange(e.target.value)} className={className}>
+          <option value="">{t("attributes.notSet")}</option>
+          {/* Keep a value from outside the schema visible so it is not lost */}
+          {current && !choices.some((choice) => choice.value === current) && (
+            <option value={current}>{current}</option>
+          )}
+          {choices.map((choice) => (
+            <option key={choice.value} value={choice.value}>
+              {choice.label}
+            </option>
+          ))}
+        </select>
+      );
+      break;
+    }
+    case "text":
+      control = (
+        <>
+          <input
+            type="text"
+            value={typeof value === "string" ? value : value === undefined ? "" : JSON.stringify(value)}
+            onChange={(e) => onChange(e.target.value)}
+            list={field.suggestions ? listId : undefined}
+            className={className}
+          />
+          {field.suggestions && (
+            <datalist id={listId}>
+              {field.suggestions.map((suggestion) => (
+                <option key={suggestion} value={suggestion} />
+              ))}
+            </datalist>
+          )}
+        </>
+      );
+      break;
+  }
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-neutral-600 mb-1">{t(`attributes.field.${field.key}`)}</label>
+      {control}
+      {issue && (
+        <p className="mt-1 text-xs text-red-600">
+          {t(`attributes.issue.${issue.code}`, issue.params)}
+        </p>
+      )}
+    </div>
+  );
+}
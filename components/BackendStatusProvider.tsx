@@ -0,0 +1,164 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { WifiOff, Loader2 } from "lucide-react";
+import { healthCheck, ApiError } from "@/lib/api";
+import type { TranslationKey, TranslationParams } from "@/lib/i18n";
+import { useLocale } from "./LocaleProvider";
+
+export type BackendStatus = "checking" | "connected" | "degraded" | "offline";
+
+interface BackendStatusContextValue {
+  status: BackendStatus;
+  /** When the last health check finished */
+  lastChecked: Date | null;
+  /** Human-readable reason for a degraded or offline status */
+  detail: string | null;
+  /** Run a health check now instead of waiting for the next poll */
+  recheck: () => void;
+}
+
+// Kept as a message key so the detail follows the current locale
+interface StatusDetail {
+  key: TranslationKey;
+  params?: TranslationParams;
+}
+
+// Poll slower while healthy, faster while down so recovery is picked up quickly
+const CONNECTED_POLL_MS = 30_000;
+const UNHEALTHY_POLL_MS = 5_000;
+// Responses slower than this count as degraded
+const SLOW_RESPONSE_MS = 2_000;
+
+const BackendStatusContext = createContext<BackendStatusContextValue>({
+  status: "checking",
+  lastChecked: null,
+  detail: null,
+  recheck: () => {},
+});
+
+export function BackendStatusProvider({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<BackendStatus>("checking");
+  const [lastChecked, setLastChecked] = useState<Date | null>(null);
+  const [detail, setDetail] = useState<StatusDetail | null>(null);
+  const { t } = useLocale();
+  const [checkCount, setCheckCount] = useState(0);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const runCheck = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const startedAt = Date.now();
+
+    try {
+      const response = await healthCheck({ signal: controller.signal, retries: 0 });
+      const elapsed = Date.now() - startedAt;
+      const healthy = ["ok", "healthy"].includes(response.status.toLowerCase());
+
+      if (!healthy) {
+        setStatus("degraded");
+        setDetail({ key: "backendStatus.unhealthy", params: { status: response.status } });
+      } else if (elapsed > SLOW_RESPONSE_MS) {
+        setStatus("degraded");
+        setDetail({ key: "backendStatus.slow", params: { seconds: Math.round(elapsed / 100) / 10 } });
+      } else {
+        setStatus("connected");
+        setDetail(null);
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+
+      if (err instanceof ApiError && (err.kind === "network" || err.kind === "timeout")) {
+        setStatus("offline");
+        setDetail({ key: err.kind === "network" ? "backendStatus.unreachable" : "backendStatus.timeout" });
+      } else {
+        // The backend answered, but not with a healthy response
+        setStatus("degraded");
+        setDetail(
+          err instanceof ApiError && err.status
+            ? { key: "backendStatus.httpError", params: { status: String(err.status) } }
+            : { key: "backendStatus.checkFailed" }
+        );
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setLastChecked(new Date());
+        setCheckCount((count) => count + 1);
+      }
+    }
+  }, []);
+
+  // Schedule the next check after each one completes
+  useEffect(() => {
+    const delay = checkCount === 0 ? 0 : status === "connected" ? CONNECTED_POLL_MS : UNHEALTHY_POLL_MS;
+    const timer = setTimeout(runCheck, delay);
+    return () => clearTimeout(timer);
+  }, [checkCount, status, runCheck]);
+
+  // Re-check immediately when the browser regains connectivity or focus
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") runCheck();
+    };
+    window.addEventListener("online", runCheck);
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => {
+      window.removeEventListener("online", runCheck);
+      document.removeEventListener("visibilitychange", handleVisibility);
+      controllerRef.current?.abort();
+    };
+  }, [runCheck]);
+
+  return (
+    <BackendStatusContext.Provider
+      value={{ status, lastChecked, detail: detail && t(detail.key, detail.params), recheck: runCheck }}
+    >
+      {children}
+    </BackendStatusContext.Provider>
+  );
+}
+
+export function useBackendStatus(): BackendStatusContextValue {
+  return useContext(BackendStatusContext);
+}
+
+/**
+ * App-wide banner shown while the backend is unreachable
+ */
+export function BackendStatusBanner() {
+  const { status, recheck } = useBackendStatus();
+  const { t } = useLocale();
+  const [retrying, setRetrying] = useState(false);
+
+  if (status !== "offline") return null;
+
+  const handleRetry = () => {
+    setRetrying(true);
+    recheck();
+    // Keep the spinner visible briefly; the banner disappears on recovery
+    setTimeout(() => setRetrying(false), 1000);
+  };
+
+  return (
+    <div className="px-4 py-3 bg-red-50 border-b border-red-200 print:hidden">
+      <div className="container mx-auto flex items-center justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <WifiOff className="w-5 h-5 text-red-600 flex-shrink-0" />
+          <p className="text-sm text-red-700">
+            {t("banner.offline")}
+          </p>
+        </div>
+        <button
+          onClick={handleRetry}
+          disabled={retrying}
+          className="flex items-center space-x-2 px-3 py-1.5 text-sm font-medium text-red-700 border border-red-300 rounded-lg hover:bg-red-100 transition-colors"
+        >
+          {retrying && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>{t("banner.retry")}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
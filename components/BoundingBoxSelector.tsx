@@ -3,13 +3,10 @@
 import { useState, useRef, useEffect } from "react";
 import { X, Square } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { BBox } from "@/lib/api";
+import { useLocale } from "./LocaleProvider";
 
-interface BoundingBox {
-  x1: number;
-  y1: number;
-  x2: number;
-  y2: number;
-}
+type BoundingBox = BBox;
 
 interface BoundingBoxSelectorProps {
   imageUrl: string;
@@ -22,6 +19,7 @@ export function BoundingBoxSelector({
   onBboxChange,
   enabled = true,
 }: BoundingBoxSelectorProps) {
+  const { t } = useLocale();
   const [isDrawing, setIsDrawing] = useState(false);
   const [bbox, setBbox] = useState<BoundingBox | null>(null);
   const [startPos, setStartPos] = useState<{ x: number; y: number; originalX: number; originalY: number } | null>(
@@ -200,7 +198,7 @@ export function BoundingBoxSelector({
               }}
             />
             {bbox && (
-              <div className="absolute top-2 left-2 bg-primary-600 text-white px-2 py-1 rounded text-xs font-medium z-10">
+              <div className="absolute top-2 start-2 bg-primary-600 text-white px-2 py-1 rounded text-xs font-medium z-10">
                 ({bbox.x1}, {bbox.y1}) - ({bbox.x2}, {bbox.y2})
               </div>
             )}
@@ -210,16 +208,16 @@ export function BoundingBoxSelector({
       {enabled && bbox && (
         <button
           onClick={handleClear}
-          className="absolute top-2 right-2 p-2 bg-white rounded-full shadow-lg hover:bg-neutral-100 transition-colors z-10"
-          title="Clear bounding box"
+          className="absolute top-2 end-2 p-2 bg-white rounded-full shadow-lg hover:bg-neutral-100 transition-colors z-10"
+          title={t("region.clear")}
         >
           <X className="w-4 h-4 text-neutral-700" />
         </button>
       )}
       {enabled && !bbox && (
-        <div className="absolute bottom-2 left-2 bg-neutral-800/80 text-white px-3 py-1.5 rounded text-xs flex items-center space-x-2">
+        <div className="absolute bottom-2 start-2 bg-neutral-800/80 text-white px-3 py-1.5 rounded text-xs flex items-center space-x-2">
           <Square className="w-3 h-3" />
-          <span>Click and drag to select area</span>
+          <span>{t("region.dragHint")}</span>
         </div>
       )}
     </div>
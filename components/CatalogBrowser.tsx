@@ -0,0 +1,572 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  AlertCircle,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Package,
+  Pencil,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import {
+  ApiError,
+  CatalogItem,
+  CatalogListResponse,
+  deleteCatalogItem,
+  getCatalogItem,
+  isAbortError,
+  listCatalogItems,
+  upsertCatalogItem,
+} from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { CATEGORIES, categoryLabel } from "@/lib/categories";
+import { fetchImageFile, getImageDimensions, MIN_IMAGE_DIMENSION, validateImageFile } from "@/lib/imageUtils";
+import { draftAttributes, draftFromAttributes, validateAttributes } from "@/lib/attributeSchemas";
+import { AttributeEditor } from "./AttributeEditor";
+import { useBackendStatus } from "./BackendStatusProvider";
+import { useLocale } from "./LocaleProvider";
+
+const PAGE_SIZE = 24;
+
+// Attributes listed on a card before the rest are summarised
+const CARD_ATTRIBUTE_COUNT = 3;
+
+function formatAttributeValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Browse the indexed catalog by category, look up a SKU, and edit or
+ * delete items
+ */
+export function CatalogBrowser() {
+  const { t, locale } = useLocale();
+  const { status: backendStatus } = useBackendStatus();
+  const writesDisabled = backendStatus === "offline";
+  const [category, setCategory] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [reloadKey, setReloadKey] = useState(0);
+  // Tagged with the request it answers, so a stale page shows as loading
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    page: CatalogListResponse | null;
+    error: string | null;
+  } | null>(null);
+  const [lookupSku, setLookupSku] = useState("");
+  const [lookup, setLookup] = useState<{ skuId: string; item: CatalogItem | null } | null>(null);
+  const [lookupLoading, setLookupLoading] = useState(false);
+  const [editing, setEditing] = useState<CatalogItem | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestKey = `${category}|${offset}|${reloadKey}`;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    listCatalogItems({ category: category || undefined, offset, limit: PAGE_SIZE, signal: controller.signal })
+      .then((page) => {
+        // Deleting the last item on a page steps back to the previous one
+        if (page.items.length === 0 && offset > 0) {
+          setOffset(Math.max(0, offset - PAGE_SIZE));
+          return;
+        }
+        setLoaded({ key: requestKey, page, error: null });
+      })
+      .catch((err) => {
+        if (controller.signal.aborted || isAbortError(err)) return;
+        setLoaded({
+          key: requestKey,
+          page: null,
+          error: err instanceof Error ? err.message : t("catalogBrowser.loadFailed"),
+        });
+      });
+    return () => controller.abort();
+  }, [category, offset, requestKey, t]);
+
+  const loading = loaded?.key !== requestKey;
+  const page = loaded?.page ?? null;
+
+  const reload = () => setReloadKey((key) => key + 1);
+
+  const handleCategoryChange = (value: string) => {
+    setCategory(value);
+    setOffset(0);
+    setLookup(null);
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const skuId = lookupSku.trim();
+    if (!skuId) return;
+    setLookupLoading(true);
+    setError(null);
+    try {
+      setLookup({ skuId, item: await getCatalogItem(skuId) });
+    } catch (err) {
+      if (err instanceof ApiError && err.kind === "not-found") {
+        setLookup({ skuId, item: null });
+      } else {
+        setError(err instanceof Error ? err.message : t("catalogBrowser.loadFailed"));
+      }
+    } finally {
+      setLookupLoading(false);
+    }
+  };
+
+  const clearLookup = () => {
+    setLookup(null);
+    setLookupSku("");
+  };
+
+  const handleDelete = async (skuId: string) => {
+    setConfirmingDelete(null);
+    setDeleting(skuId);
+    setError(null);
+    setNotice(null);
+    try {
+      await deleteCatalogItem(skuId);
+      setNotice(t("catalogBrowser.deleted", { sku: skuId }));
+      if (lookup?.skuId === skuId) setLookup(null);
+      reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("catalogBrowser.deleteFailed"));
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const handleSaved = (item: CatalogItem) => {
+    setEditing(null);
+    setNotice(t("catalogBrowser.saved", { sku: item.sku_id }));
+    if (lookup?.skuId === item.sku_id) setLookup({ skuId: item.sku_id, item });
+    reload();
+  };
+
+  const items = lookup ? (lookup.item ? [lookup.item] : []) : page?.items ?? [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 border border-neutral-200 space-y-6">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <select
+          value={category}
+          onChange={(e) => handleCategoryChange(e.target.value)}
+          className="px-4 py-2 border border-neutral-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+          aria-label={t("catalog.category")}
+        >
+          <option value="">{t("catalogBrowser.allCategories")}</option>
+          {CATEGORIES.map((cat) => (
+            <option key={cat} value={cat}>
+              {categoryLabel(cat, locale)}
+            </option>
+          ))}
+        </select>
+        <form onSubmit={handleLookup} className="flex flex-1 gap-2">
+          <input
+            type="text"
+            value={lookupSku}
+            onChange={(e) => setLookupSku(e.target.value)}
+            placeholder={t("catalogBrowser.lookupPlaceholder")}
+            dir="ltr"
+            className="flex-1 min-w-0 px-4 py-2 border border-neutral-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+          />
+          <button
+            type="submit"
+            disabled={lookupLoading || !lookupSku.trim()}
+            className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors disabled:bg-neutral-300 disabled:cursor-not-allowed"
+          >
+            {lookupLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+            <span>{t("catalogBrowser.lookup")}</span>
+          </button>
+        </form>
+      </div>
+
+      {notice && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-start space-x-3">
+          <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-green-700">{notice}</p>
+        </div>
+      )}
+
+      {(error || (!lookup && loaded?.error)) && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-700 whitespace-pre-line">{error || loaded?.error}</p>
+        </div>
+      )}
+
+      {lookup && (
+        <div className="flex items-center justify-between text-sm text-neutral-600">
+          <span>
+            {lookup.item
+              ? t("catalogBrowser.lookupResult", { sku: lookup.skuId })
+              : t("catalogBrowser.notFound", { sku: lookup.skuId })}
+          </span>
+          <button
+            onClick={clearLookup}
+            className="flex items-center space-x-1 px-2 py-1 text-xs font-medium text-neutral-600 hover:bg-neutral-100 rounded transition-colors"
+          >
+            <X className="w-3.5 h-3.5" />
+            <span>{t("catalogBrowser.backToList")}</span>
+          </button>
+        </div>
+      )}
+
+      {!lookup && loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+        </div>
+      ) : items.length > 0 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {items.map((item) => (
+            <CatalogItemCard
+              key={item.sku_id}
+              item={item}
+              confirmingDelete={confirmingDelete === item.sku_id}
+              deleting={deleting === item.sku_id}
+              writesDisabled={writesDisabled}
+              onEdit={() => setEditing(item)}
+              onDelete={() => setConfirmingDelete(item.sku_id)}
+              onConfirmDelete={() => handleDelete(item.sku_id)}
+              onCancelDelete={() => setConfirmingDelete(null)}
+            />
+          ))}
+        </div>
+      ) : (
+        !lookup &&
+        page && (
+          <div className="text-center py-12">
+            <Package className="w-16 h-16 text-neutral-300 mx-auto mb-4" />
+            <p className="text-neutral-600 font-medium">{t("catalogBrowser.empty")}</p>
+          </div>
+        )
+      )}
+
+      {!lookup && page && page.total > PAGE_SIZE && (
+        <div className="flex items-center justify-between text-sm text-neutral-600">
+          <span>
+            {t("catalogBrowser.range", {
+              from: page.offset + 1,
+              to: page.offset + page.items.length,
+              total: page.total,
+            })}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={loading || offset === 0}
+              className="flex items-center space-x-1 px-3 py-1.5 border border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft className="w-4 h-4 rtl:rotate-180" />
+              <span>{t("catalogBrowser.previous")}</span>
+            </button>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={loading || offset + PAGE_SIZE >= page.total}
+              className="flex items-center space-x-1 px-3 py-1.5 border border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <span>{t("catalogBrowser.next")}</span>
+              <ChevronRight className="w-4 h-4 rtl:rotate-180" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <CatalogItemEditor item={editing} onClose={() => setEditing(null)} onSaved={handleSaved} />
+      )}
+    </div>
+  );
+}
+
+function CatalogItemCard({
+  item,
+  confirmingDelete,
+  deleting,
+  writesDisabled,
+  onEdit,
+  onDelete,
+  onConfirmDelete,
+  onCancelDelete,
+}: {
+  item: CatalogItem;
+  confirmingDelete: boolean;
+  deleting: boolean;
+  writesDisabled: boolean;
+  onEdit: () => void;
+  onDelete: () => void;
+  onConfirmDelete: () => void;
+  onCancelDelete: () => void;
+}) {
+  const { t, locale } = useLocale();
+  const [imageError, setImageError] = useState(false);
+  const attributes = Object.entries(item.attributes ?? {});
+
+  return (
+    <div className="flex flex-col border border-neutral-200 rounded-lg overflow-hidden">
+      <div className="aspect-square bg-neutral-100 flex items-center justify-center">
+        {item.image_url && !imageError ? (
+          <img
+            src={item.image_url}
+            alt={item.sku_id}
+            className="w-full h-full object-cover"
+            onError={() => setImageError(true)}
+          />
+        ) : (
+          <Package className="w-12 h-12 text-neutral-400" />
+        )}
+      </div>
+      <div className="flex-1 p-3 space-y-1">
+        <p className="font-semibold text-neutral-900 break-all" dir="ltr">
+          {item.sku_id}
+        </p>
+        <p className="text-sm text-neutral-600">{categoryLabel(item.category, locale)}</p>
+        {attributes.length > 0 && (
+          <dl className="text-xs text-neutral-500 space-y-0.5" dir="ltr">
+            {attributes.slice(0, CARD_ATTRIBUTE_COUNT).map(([key, value]) => (
+              <div key={key} className="truncate">
+                <dt className="inline font-medium">{key}:</dt> <dd className="inline">{formatAttributeValue(value)}</dd>
+              </div>
+            ))}
+            {attributes.length > CARD_ATTRIBUTE_COUNT && (
+              <p>{t("catalogBrowser.moreAttributes", { count: attributes.length - CARD_ATTRIBUTE_COUNT })}</p>
+            )}
+          </dl>
+        )}
+      </div>
+      <div className="flex items-center gap-2 px-3 py-2 border-t border-neutral-100">
+        {confirmingDelete ? (
+          <>
+            <span className="me-auto text-xs text-neutral-600">{t("catalogBrowser.confirmDelete")}</span>
+            <button
+              onClick={onCancelDelete}
+              className="px-2 py-1 text-xs font-medium text-neutral-700 hover:bg-neutral-100 rounded transition-colors"
+            >
+              {t("catalogBrowser.cancel")}
+            </button>
+            <button
+              onClick={onConfirmDelete}
+              className="px-2 py-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 rounded transition-colors"
+            >
+              {t("catalogBrowser.delete")}
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={onEdit}
+              disabled={writesDisabled || deleting}
+              className="flex items-center space-x-1 px-2 py-1 text-xs font-medium text-neutral-700 hover:bg-neutral-100 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Pencil className="w-3.5 h-3.5" />
+              <span>{t("catalogBrowser.edit")}</span>
+            </button>
+            <button
+              onClick={onDelete}
+              disabled={writesDisabled || deleting}
+              className="flex items-center space-x-1 px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {deleting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+              <span>{t("catalogBrowser.delete")}</span>
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Change an item's category and attributes by upserting it again. The
+ * current image is re-sent unless a replacement is chosen, so it is
+ * downloaded up front; if that fails a replacement is required to save.
+ */
+function CatalogItemEditor({
+  item,
+  onClose,
+  onSaved,
+}: {
+  item: CatalogItem;
+  onClose: () => void;
+  onSaved: (item: CatalogItem) => void;
+}) {
+  const { t, locale } = useLocale();
+  const [category, setCategory] = useState(item.category);
+  const [attributes, setAttributes] = useState(() => draftFromAttributes(item.attributes ?? {}));
+  const [image, setImage] = useState<File | null>(null);
+  const [imageError, setImageError] = useState<string | null>(null);
+  // null while the current image downloads; file is null if it could not be fetched
+  const [original, setOriginal] = useState<{ file: File | null } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const download = item.image_url
+      ? fetchImageFile(item.image_url, item.sku_id)
+      : Promise.reject(new Error("Item has no image URL"));
+    download.then(
+      (file) => !cancelled && setOriginal({ file }),
+      () => !cancelled && setOriginal({ file: null })
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [item.image_url, item.sku_id]);
+
+  const originalUnavailable = original !== null && original.file === null;
+  // Saving waits for an image to send: the replacement or the downloaded original
+  const imageReady = image !== null || Boolean(original?.file);
+
+  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] ?? null;
+    setImage(null);
+    setImageError(null);
+    if (!file) return;
+
+    const fileError = validateImageFile(file);
+    if (fileError) {
+      setImageError(fileError);
+      return;
+    }
+    try {
+      const { width, height } = await getImageDimensions(file);
+      if (width < MIN_IMAGE_DIMENSION || height < MIN_IMAGE_DIMENSION) {
+        setImageError(t("catalog.imageTooSmall", { width: String(width), height: String(height) }));
+        return;
+      }
+    } catch {
+      setImageError(t("catalog.imageLoadFailed"));
+      return;
+    }
+    setImage(file);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (attributes.jsonInvalid) {
+      setError(t("catalog.fixJson"));
+      return;
+    }
+    if (Object.keys(validateAttributes(category, attributes.attributes)).length > 0) {
+      setError(t("catalog.fixAttributes"));
+      return;
+    }
+
+    const file = image ?? original?.file;
+    if (!file) {
+      setError(t("catalogBrowser.imageUnavailable"));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = draftAttributes(attributes);
+      await upsertCatalogItem(item.sku_id, category, file, saved);
+      onSaved({ ...item, category, attributes: saved ?? null });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("catalogBrowser.saveFailed"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white rounded-xl shadow-xl p-6 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-neutral-900">
+            {t("catalogBrowser.editTitle", { sku: item.sku_id })}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-neutral-100"
+            aria-label={t("catalogBrowser.cancel")}
+          >
+            <X className="w-5 h-5 text-neutral-600" />
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-neutral-700 mb-2">{t("catalog.category")}</label>
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+          >
+            {!CATEGORIES.includes(item.category) && <option value={item.category}>{item.category}</option>}
+            {CATEGORIES.map((cat) => (
+              <option key={cat} value={cat}>
+                {categoryLabel(cat, locale)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <AttributeEditor category={category} draft={attributes} onChange={setAttributes} />
+
+        <div>
+          <label className="block text-sm font-medium text-neutral-700 mb-2">
+            {t("catalogBrowser.replaceImage")} <span className="text-neutral-500 text-xs">{t("catalog.optional")}</span>
+          </label>
+          <input
+            type="file"
+            accept="image/*"
+            onChange={handleImageSelect}
+            className="block w-full text-sm text-neutral-600 file:me-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-neutral-100 file:text-neutral-700 hover:file:bg-neutral-200"
+          />
+          {imageError ? (
+            <p className="mt-1 text-sm text-red-600">{imageError}</p>
+          ) : originalUnavailable && !image ? (
+            <p className="mt-1 text-sm text-red-600">{t("catalogBrowser.imageUnavailable")}</p>
+          ) : (
+            <p className="mt-1 text-xs text-neutral-500">{t("catalogBrowser.replaceImageHint")}</p>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-2">
+            <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-700 whitespace-pre-line">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100 rounded-lg transition-colors"
+          >
+            {t("catalogBrowser.cancel")}
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !imageReady}
+            className={cn(
+              "flex items-center space-x-2 px-4 py-2 text-sm font-semibold text-white rounded-lg transition-colors",
+              saving || !imageReady ? "bg-neutral-300 cursor-not-allowed" : "bg-primary-600 hover:bg-primary-700"
+            )}
+          >
+            {(saving || (original === null && !image)) && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>{saving ? t("catalogBrowser.saving") : t("catalogBrowser.save")}</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,432 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  AlertCircle,
+  CheckCircle,
+  Download,
+  FileSpreadsheet,
+  FolderOpen,
+  Images,
+  Loader2,
+  RotateCcw,
+  Upload,
+  X,
+} from "lucide-react";
+import { ApiError, isAbortError, upsertCatalogItem } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { categoryLabel } from "@/lib/categories";
+import { runWithConcurrency } from "@/lib/concurrency";
+import { downloadFile, toCsv } from "@/lib/csv";
+import {
+  ImportIssue,
+  ImportRow,
+  isManifestFile,
+  ManifestError,
+  ManifestRow,
+  parseManifest,
+  readDroppedFiles,
+  validateImportRows,
+} from "@/lib/catalogImport";
+import { useBackendStatus } from "./BackendStatusProvider";
+import { useLocale } from "./LocaleProvider";
+
+// Upserts in flight at once; each one embeds an image on the backend
+const IMPORT_CONCURRENCY = 4;
+
+type RowStatus = "invalid" | "ready" | "uploading" | "done" | "failed";
+
+interface ImportRowState extends ImportRow {
+  status: RowStatus;
+  /** Backend error for failed rows */
+  error: string | null;
+}
+
+const STATUS_STYLES: Record<RowStatus, string> = {
+  invalid: "bg-red-50 text-red-700",
+  ready: "bg-neutral-100 text-neutral-700",
+  uploading: "bg-primary-50 text-primary-700",
+  done: "bg-green-50 text-green-700",
+  failed: "bg-red-50 text-red-700",
+};
+
+function uploadErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof ApiError && err.issues.length > 0) {
+    return err.issues.map((issue) => `${issue.field}: ${issue.msg}`).join("; ");
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
+/**
+ * Bulk catalog import: a CSV or JSON manifest plus the product images,
+ * validated up front and upserted a few at a time
+ */
+export function CatalogImport() {
+  const { t, locale } = useLocale();
+  const { status: backendStatus } = useBackendStatus();
+  const uploadsDisabled = backendStatus === "offline";
+  const [manifestName, setManifestName] = useState<string | null>(null);
+  const [manifestRows, setManifestRows] = useState<ManifestRow[]>([]);
+  const [manifestError, setManifestError] = useState<string | null>(null);
+  const [images, setImages] = useState<File[]>([]);
+  const [rows, setRows] = useState<ImportRowState[]>([]);
+  const [validating, setValidating] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const manifestInputRef = useRef<HTMLInputElement>(null);
+  const imagesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  // Bumped on every validation so a slow, outdated one cannot overwrite a newer one
+  const validationRef = useRef(0);
+
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  const validate = async (nextRows: ManifestRow[], nextImages: File[]) => {
+    const run = ++validationRef.current;
+    if (nextRows.length === 0) {
+      setRows([]);
+      return;
+    }
+    setValidating(true);
+    const validated = await validateImportRows(nextRows, nextImages);
+    if (run !== validationRef.current) return;
+    setRows(
+      validated.map((row) => ({ ...row, status: row.issues.length > 0 ? "invalid" : "ready", error: null }))
+    );
+    setValidating(false);
+  };
+
+  const addFiles = async (files: File[]) => {
+    if (running) return;
+    const manifest = files.find(isManifestFile);
+    const newImages = files.filter((file) => !isManifestFile(file));
+    let nextRows = manifestRows;
+
+    if (manifest) {
+      setManifestName(manifest.name);
+      try {
+        nextRows = await parseManifest(manifest);
+        setManifestError(null);
+      } catch (err) {
+        nextRows = [];
+        setManifestError(
+          err instanceof ManifestError ? t(`catalogImport.manifest.${err.code}`) : t("catalogImport.manifestUnreadable")
+        );
+      }
+      setManifestRows(nextRows);
+    }
+
+    // A file dropped again with the same name replaces the earlier one
+    const names = new Set(newImages.map((file) => file.name.toLowerCase()));
+    const nextImages = [...images.filter((file) => !names.has(file.name.toLowerCase())), ...newImages];
+    setImages(nextImages);
+    await validate(nextRows, nextImages);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length > 0) addFiles(files);
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    if (uploadsDisabled || running) return;
+    addFiles(await readDroppedFiles(e.dataTransfer));
+  };
+
+  const handleReset = () => {
+    validationRef.current++;
+    setManifestName(null);
+    setManifestRows([]);
+    setManifestError(null);
+    setImages([]);
+    setRows([]);
+    setValidating(false);
+  };
+
+  const updateRow = (rowNumber: number, patch: Partial<ImportRowState>) => {
+    setRows((current) => current.map((row) => (row.row === rowNumber ? { ...row, ...patch } : row)));
+  };
+
+  const runImport = async (targets: ImportRowState[]) => {
+    if (targets.length === 0) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+
+    try {
+      await runWithConcurrency(
+        targets,
+        IMPORT_CONCURRENCY,
+        async (row) => {
+          updateRow(row.row, { status: "uploading", error: null });
+          try {
+            await upsertCatalogItem(row.skuId, row.category, row.image!, row.attributes, {
+              signal: controller.signal,
+            });
+            updateRow(row.row, { status: "done" });
+          } catch (err) {
+            if (controller.signal.aborted || isAbortError(err)) {
+              updateRow(row.row, { status: "ready" });
+              return;
+            }
+            updateRow(row.row, { status: "failed", error: uploadErrorMessage(err, t("catalog.failed")) });
+          }
+        },
+        controller.signal
+      );
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRunning(false);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRunning(false);
+  };
+
+  const issueText = (issue: ImportIssue) => t(`catalogImport.issue.${issue.code}`, issue.params);
+
+  const rowErrors = (row: ImportRowState) =>
+    row.status === "failed" && row.error ? [row.error] : row.issues.map(issueText);
+
+  const handleDownloadReport = () => {
+    const problems = rows.filter((row) => row.status === "invalid" || row.status === "failed");
+    const csv = toCsv(
+      ["row", "sku_id", "category", "image", "status", "errors"],
+      problems.map((row) => [
+        row.row,
+        row.skuId,
+        row.category,
+        row.imageName,
+        row.status,
+        rowErrors(row).join("; "),
+      ])
+    );
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(csv, `catalog-import-errors-${date}.csv`, "text/csv;charset=utf-8");
+  };
+
+  const counts = rows.reduce<Record<RowStatus, number>>(
+    (totals, row) => ({ ...totals, [row.status]: totals[row.status] + 1 }),
+    { invalid: 0, ready: 0, uploading: 0, done: 0, failed: 0 }
+  );
+  const processed = counts.done + counts.failed;
+  const queued = processed + counts.ready + counts.uploading;
+  const imageCount = images.filter((file) => file.type.startsWith("image/")).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 border border-neutral-200 space-y-6">
+      <div
+        onDrop={handleDrop}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!uploadsDisabled && !running) setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        aria-disabled={uploadsDisabled || running}
+        className={cn(
+          "border-2 border-dashed rounded-lg p-8 text-center transition-colors",
+          uploadsDisabled || running
+            ? "opacity-60 bg-neutral-50 border-neutral-300"
+            : dragging
+              ? "border-primary-400 bg-primary-50/50"
+              : "border-neutral-300"
+        )}
+      >
+        <input ref={manifestInputRef} type="file" accept=".csv,.json" onChange={handleInputChange} className="hidden" />
+        <input
+          ref={imagesInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handleInputChange}
+          className="hidden"
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={handleInputChange}
+          className="hidden"
+          {...({ webkitdirectory: "" } as React.InputHTMLAttributes<HTMLInputElement>)}
+        />
+        <Upload className="w-12 h-12 text-neutral-400 mx-auto mb-4" />
+        <p className="text-neutral-600 font-medium">
+          {uploadsDisabled ? t("upload.offlineInline") : t("catalogImport.dropPrompt")}
+        </p>
+        <p className="text-sm text-neutral-500 mt-1">{t("catalogImport.manifestHint")}</p>
+        <div className="mt-4 flex flex-wrap justify-center gap-2">
+          {[
+            { ref: manifestInputRef, icon: FileSpreadsheet, label: t("catalogImport.chooseManifest") },
+            { ref: imagesInputRef, icon: Images, label: t("catalogImport.chooseImages") },
+            { ref: folderInputRef, icon: FolderOpen, label: t("catalogImport.chooseFolder") },
+          ].map(({ ref, icon: Icon, label }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => ref.current?.click()}
+              disabled={uploadsDisabled || running}
+              className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-neutral-700 border border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Icon className="w-4 h-4" />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {(manifestName || images.length > 0) && (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-neutral-600">
+          <p>
+            {manifestName ? t("catalogImport.manifestLoaded", { name: manifestName }) : t("catalogImport.noManifest")}
+            {" · "}
+            {t("catalogImport.imageCount", { count: imageCount })}
+          </p>
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={running}
+            className="flex items-center space-x-1 px-2 py-1 text-xs font-medium text-neutral-600 hover:bg-neutral-100 rounded transition-colors disabled:opacity-50"
+          >
+            <X className="w-3.5 h-3.5" />
+            <span>{t("catalogImport.reset")}</span>
+          </button>
+        </div>
+      )}
+
+      {manifestError && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-700">{manifestError}</p>
+        </div>
+      )}
+
+      {validating && (
+        <p className="flex items-center space-x-2 text-sm text-neutral-600">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>{t("catalogImport.validating")}</span>
+        </p>
+      )}
+
+      {rows.length > 0 && !validating && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {running ? (
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="px-4 py-2 text-sm font-medium text-neutral-700 border border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors"
+              >
+                {t("catalogImport.cancel")}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => runImport(rows.filter((row) => row.status === "ready"))}
+                disabled={counts.ready === 0 || uploadsDisabled}
+                className="px-4 py-2 text-sm font-semibold text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors disabled:bg-neutral-300 disabled:cursor-not-allowed"
+              >
+                {t("catalogImport.start", { count: counts.ready })}
+              </button>
+            )}
+            {counts.failed > 0 && !running && (
+              <button
+                type="button"
+                onClick={() => runImport(rows.filter((row) => row.status === "failed"))}
+                disabled={uploadsDisabled}
+                className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-primary-600 border border-primary-200 rounded-lg hover:bg-primary-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>{t("catalogImport.retryFailed", { count: counts.failed })}</span>
+              </button>
+            )}
+            {counts.invalid + counts.failed > 0 && (
+              <button
+                type="button"
+                onClick={handleDownloadReport}
+                className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100 rounded-lg transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                <span>{t("catalogImport.errorReport")}</span>
+              </button>
+            )}
+          </div>
+
+          <div>
+            <div className="flex flex-wrap justify-between gap-2 text-sm text-neutral-600 mb-2">
+              <span>
+                {t("catalogImport.progress", { processed, total: queued })}
+              </span>
+              <span>
+                {t("catalogImport.summary", {
+                  done: counts.done,
+                  failed: counts.failed,
+                  invalid: counts.invalid,
+                })}
+              </span>
+            </div>
+            <div className="h-2 bg-neutral-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-primary-600 transition-all"
+                style={{ width: `${queued > 0 ? (processed / queued) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+
+          <div className="max-h-[32rem] overflow-auto border border-neutral-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-neutral-50 text-neutral-600 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-start font-medium">#</th>
+                  <th className="px-3 py-2 text-start font-medium">{t("catalog.skuId")}</th>
+                  <th className="px-3 py-2 text-start font-medium">{t("catalog.category")}</th>
+                  <th className="px-3 py-2 text-start font-medium">{t("catalog.image")}</th>
+                  <th className="px-3 py-2 text-start font-medium">{t("catalogImport.statusColumn")}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-100">
+                {rows.map((row) => (
+                  <tr key={row.row} className="align-top">
+                    <td className="px-3 py-2 text-neutral-500">{row.row}</td>
+                    <td className="px-3 py-2 font-medium text-neutral-900" dir="ltr">{row.skuId}</td>
+                    <td className="px-3 py-2 text-neutral-700">
+                      {row.category ? categoryLabel(row.category, locale) : ""}
+                    </td>
+                    <td className="px-3 py-2 text-neutral-700 break-all" dir="ltr">{row.imageName}</td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={cn(
+                          "inline-flex items-center space-x-1 px-2 py-0.5 rounded text-xs font-medium",
+                          STATUS_STYLES[row.status]
+                        )}
+                      >
+                        {row.status === "uploading" && <Loader2 className="w-3 h-3 animate-spin" />}
+                        {row.status === "done" && <CheckCircle className="w-3 h-3" />}
+                        <span>{t(`catalogImport.status.${row.status}`)}</span>
+                      </span>
+                      {rowErrors(row).map((message, index) => (
+                        <p key={index} className="mt-1 text-xs text-red-600">
+                          {message}
+                        </p>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
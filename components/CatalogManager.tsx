@@ -1,35 +1,35 @@
 "use client";
 
 import { useState, useRef } from "react";
-import { Upload, X, CheckCircle, Loader2, AlertCircle, FileJson } from "lucide-react";
-import { upsertCatalogItem } from "@/lib/api";
+import { Upload, X, CheckCircle, Loader2, AlertCircle } from "lucide-react";
+import { upsertCatalogItem, ApiError } from "@/lib/api";
 import { cn } from "@/lib/utils";
+import { CATEGORIES, categoryLabel } from "@/lib/categories";
+import { MIN_IMAGE_DIMENSION } from "@/lib/imageUtils";
+import { AttributeDraft, draftAttributes, EMPTY_ATTRIBUTE_DRAFT, validateAttributes } from "@/lib/attributeSchemas";
+import { AttributeEditor } from "./AttributeEditor";
+import { useBackendStatus } from "./BackendStatusProvider";
+import { useLocale } from "./LocaleProvider";
+
+// Form fields, named as the backend reports them in validation errors
+type FormField = "sku_id" | "category" | "image" | "attributes_json";
+
+const FORM_FIELDS: FormField[] = ["sku_id", "category", "image", "attributes_json"];
 
 export function CatalogManager() {
   const [skuId, setSkuId] = useState("");
   const [category, setCategory] = useState("");
   const [image, setImage] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
-  const [attributesJson, setAttributesJson] = useState("");
-  const [attributesError, setAttributesError] = useState<string | null>(null);
+  const [attributes, setAttributes] = useState<AttributeDraft>(EMPTY_ATTRIBUTE_DRAFT);
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<FormField, string>>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const categories = [
-    "chair", "2-seater-sofa", "l-shape-sofa", "sofa",
-    "bed", "bedspread", "pillow", "mattresses",
-    "service-table", "center-table", "side-table", "console",
-    "dressing-table", "comforter", "tv-table", "dining-table",
-    "storage-box", "carpet", "flower-pot-and-plant", "statue-and-antique",
-    "laundry-basket", "candle", "vase", "flower",
-    "wall-clock", "shelve", "decorative-hanger", "lighting",
-    "lampshade", "floor-stand", "wall-lighting", "outdoor-lighting",
-    "chandelier", "pendant-lighting", "coffee-maker", "cooking-appliance",
-    "food-processor", "cooking-pot", "serving-utensil-and-tray",
-    "cup", "plate", "chaise-lounge", "art-canvas", "office-table", "office-chair"
-  ];
+  const { status: backendStatus } = useBackendStatus();
+  const uploadsDisabled = backendStatus === "offline";
+  const { t, locale } = useLocale();
 
   const validateImageDimensions = (file: File): Promise<boolean> => {
     return new Promise((resolve) => {
@@ -38,20 +38,17 @@ export function CatalogManager() {
 
       img.onload = () => {
         URL.revokeObjectURL(objectUrl);
-        const isValid = img.width >= 400 && img.height >= 400;
+        const isValid = img.width >= MIN_IMAGE_DIMENSION && img.height >= MIN_IMAGE_DIMENSION;
 
         if (!isValid) {
-          setError(
-            `Image too small (${img.width}×${img.height}px). ` +
-            `Minimum 400×400px required for quality detection and embeddings.`
-          );
+          setError(t("catalog.imageTooSmall", { width: String(img.width), height: String(img.height) }));
         }
         resolve(isValid);
       };
 
       img.onerror = () => {
         URL.revokeObjectURL(objectUrl);
-        setError("Failed to load image. Please try another file.");
+        setError(t("catalog.imageLoadFailed"));
         resolve(false);
       };
 
@@ -63,7 +60,7 @@ export function CatalogManager() {
     const file = e.target.files?.[0];
     if (file) {
       if (!file.type.startsWith("image/")) {
-        setError("Please select an image file");
+        setError(t("catalog.selectImage"));
         return;
       }
 
@@ -76,6 +73,7 @@ export function CatalogManager() {
       setImage(file);
       setError(null);
       setSuccess(null);
+      clearFieldError("image");
       const reader = new FileReader();
       reader.onloadend = () => {
         setPreview(reader.result as string);
@@ -86,6 +84,7 @@ export function CatalogManager() {
 
   const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
+    if (uploadsDisabled) return;
     const file = e.dataTransfer.files?.[0];
     if (file && file.type.startsWith("image/")) {
       // Validate dimensions
@@ -97,6 +96,7 @@ export function CatalogManager() {
       setImage(file);
       setError(null);
       setSuccess(null);
+      clearFieldError("image");
       const reader = new FileReader();
       reader.onloadend = () => {
         setPreview(reader.result as string);
@@ -105,6 +105,21 @@ export function CatalogManager() {
     }
   };
 
+  const clearFieldError = (field: FormField) => {
+    setFieldErrors((prev) => {
+      if (!(field in prev)) return prev;
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+  };
+
+  const inputClassName = (field: FormField) =>
+    cn(
+      "w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none",
+      fieldErrors[field] ? "border-red-300 bg-red-50" : "border-neutral-300"
+    );
+
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
   };
@@ -117,81 +132,76 @@ export function CatalogManager() {
     }
   };
 
-  const handleAttributesChange = (value: string) => {
-    setAttributesJson(value);
-    setAttributesError(null);
-    if (value.trim()) {
-      try {
-        JSON.parse(value);
-      } catch (e) {
-        setAttributesError("Invalid JSON format");
-      }
-    }
-  };
-
-  const parseAttributes = (): Record<string, any> | undefined => {
-    if (!attributesJson.trim()) {
-      return undefined;
-    }
-    try {
-      const parsed = JSON.parse(attributesJson);
-      return typeof parsed === "object" && parsed !== null ? parsed : undefined;
-    } catch {
-      return undefined;
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const missing: Partial<Record<FormField, string>> = {};
     if (!skuId.trim()) {
-      setError("SKU ID is required");
-      return;
+      missing.sku_id = t("catalog.skuRequired");
     }
-
     if (!category) {
-      setError("Category is required");
-      return;
+      missing.category = t("catalog.categoryRequired");
     }
-
     if (!image) {
-      setError("Product image is required");
+      missing.image = t("catalog.imageRequired");
+    }
+    if (Object.keys(missing).length > 0 || !image) {
+      setFieldErrors(missing);
       return;
     }
 
-    if (attributesError) {
-      setError("Please fix the JSON format in attributes");
+    if (attributes.jsonInvalid) {
+      setError(t("catalog.fixJson"));
+      return;
+    }
+    if (Object.keys(validateAttributes(category, attributes.attributes)).length > 0) {
+      setError(t("catalog.fixAttributes"));
       return;
     }
 
     setLoading(true);
     setError(null);
+    setFieldErrors({});
     setSuccess(null);
 
     try {
-      const attributes = parseAttributes();
       const response = await upsertCatalogItem(
         skuId.trim(),
         category,
         image,
-        attributes
-      );
-      setSuccess(
-        `Product "${response.sku_id}" added successfully! Image ID: ${response.image_id}`
+        draftAttributes(attributes)
       );
+      setSuccess(t("catalog.success", { sku: response.sku_id, imageId: response.image_id }));
       setSkuId("");
       setCategory("");
       setImage(null);
       setPreview(null);
-      setAttributesJson("");
-      setAttributesError(null);
+      setAttributes(EMPTY_ATTRIBUTE_DRAFT);
       if (fileInputRef.current) {
         fileInputRef.current.value = "";
       }
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : "Failed to add product to catalog"
-      );
+      if (err instanceof ApiError && err.kind === "validation") {
+        // Highlight the fields the backend rejected; anything else goes in the banner
+        const rejected: Partial<Record<FormField, string>> = {};
+        const other: string[] = [];
+        for (const issue of err.issues) {
+          // Nested paths such as "attributes_json.width" belong to their top-level field
+          const [topLevel, ...nested] = issue.field.split(".");
+          const field = FORM_FIELDS.find((name) => name === topLevel);
+          if (field) {
+            rejected[field] ??= nested.length > 0 ? `${nested.join(".")}: ${issue.msg}` : issue.msg;
+          } else {
+            other.push(`${issue.field}: ${issue.msg}`);
+          }
+        }
+        setFieldErrors(rejected);
+        setError(other.length > 0 ? other.join("\n") : null);
+      } else {
+        setError(
+          err instanceof Error ? err.message : t("catalog.failed")
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -203,93 +213,83 @@ export function CatalogManager() {
         {/* SKU ID */}
         <div>
           <label className="block text-sm font-medium text-neutral-700 mb-2">
-            SKU ID <span className="text-red-500">*</span>
+            {t("catalog.skuId")} <span className="text-red-500">*</span>
           </label>
           <input
             type="text"
             value={skuId}
-            onChange={(e) => setSkuId(e.target.value)}
-            placeholder="e.g., BED-001"
+            onChange={(e) => {
+              setSkuId(e.target.value);
+              clearFieldError("sku_id");
+            }}
+            placeholder={t("catalog.skuPlaceholder")}
             required
-            className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+            className={inputClassName("sku_id")}
           />
+          {fieldErrors.sku_id && (
+            <p className="mt-1 text-sm text-red-600">{fieldErrors.sku_id}</p>
+          )}
         </div>
 
         {/* Category */}
         <div>
           <label className="block text-sm font-medium text-neutral-700 mb-2">
-            Category <span className="text-red-500">*</span>
+            {t("catalog.category")} <span className="text-red-500">*</span>
           </label>
           <select
             value={category}
-            onChange={(e) => setCategory(e.target.value)}
+            onChange={(e) => {
+              setCategory(e.target.value);
+              clearFieldError("category");
+            }}
             required
-            className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+            className={inputClassName("category")}
           >
-            <option value="">Select a category</option>
-            {categories.map((cat) => (
+            <option value="">{t("catalog.selectCategory")}</option>
+            {CATEGORIES.map((cat) => (
               <option key={cat} value={cat}>
-                {cat.charAt(0).toUpperCase() + cat.slice(1)}
+                {categoryLabel(cat, locale)}
               </option>
             ))}
           </select>
-        </div>
-
-        {/* Attributes JSON */}
-        <div>
-          <label className="block text-sm font-medium text-neutral-700 mb-2">
-            Attributes (JSON) <span className="text-neutral-500 text-xs">(Optional)</span>
-          </label>
-          <div className="relative">
-            <textarea
-              value={attributesJson}
-              onChange={(e) => handleAttributesChange(e.target.value)}
-              placeholder='{"color": "brown", "material": "wood", "dimensions": {"width": 100, "height": 200}}'
-              rows={4}
-              className={cn(
-                "w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none font-mono text-sm",
-                attributesError
-                  ? "border-red-300 bg-red-50"
-                  : "border-neutral-300"
-              )}
-            />
-            {attributesJson && (
-              <div className="absolute top-2 right-2">
-                <FileJson className="w-4 h-4 text-neutral-400" />
-              </div>
-            )}
-          </div>
-          {attributesError && (
-            <p className="mt-1 text-sm text-red-600">{attributesError}</p>
+          {fieldErrors.category && (
+            <p className="mt-1 text-sm text-red-600">{fieldErrors.category}</p>
           )}
-          {attributesJson && !attributesError && (
-            <p className="mt-1 text-sm text-green-600 flex items-center space-x-1">
-              <CheckCircle className="w-4 h-4" />
-              <span>Valid JSON</span>
-            </p>
-          )}
-          <p className="mt-1 text-xs text-neutral-500">
-            Enter product attributes as JSON (e.g., color, material, dimensions)
-          </p>
         </div>
 
+        {/* Attributes */}
+        <AttributeEditor
+          category={category}
+          draft={attributes}
+          onChange={(draft) => {
+            setAttributes(draft);
+            clearFieldError("attributes_json");
+          }}
+          error={fieldErrors.attributes_json}
+        />
+
         {/* Image Upload */}
         <div>
           <label className="block text-sm font-medium text-neutral-700 mb-2">
-            Product Image <span className="text-red-500">*</span>
+            {t("catalog.image")} <span className="text-red-500">*</span>
           </label>
           {preview ? (
             <div className="relative group">
-              <div className="relative w-full h-64 rounded-lg overflow-hidden border-2 border-neutral-200">
+              <div
+                className={cn(
+                  "relative w-full h-64 rounded-lg overflow-hidden border-2",
+                  fieldErrors.image ? "border-red-300" : "border-neutral-200"
+                )}
+              >
                 <img
                   src={preview}
-                  alt="Preview"
+                  alt={t("catalog.preview")}
                   className="w-full h-full object-contain bg-neutral-50"
                 />
                 <button
                   type="button"
                   onClick={handleRemoveImage}
-                  className="absolute top-2 right-2 p-2 bg-white rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity hover:bg-neutral-100"
+                  className="absolute top-2 end-2 p-2 bg-white rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity hover:bg-neutral-100"
                 >
                   <X className="w-5 h-5 text-neutral-700" />
                 </button>
@@ -297,27 +297,38 @@ export function CatalogManager() {
             </div>
           ) : (
             <div
-              onClick={() => fileInputRef.current?.click()}
+              onClick={() => !uploadsDisabled && fileInputRef.current?.click()}
               onDrop={handleDrop}
               onDragOver={handleDragOver}
-              className="relative border-2 border-dashed border-neutral-300 rounded-lg p-12 text-center cursor-pointer hover:border-primary-400 hover:bg-primary-50/50 transition-colors"
+              aria-disabled={uploadsDisabled}
+              className={cn(
+                "relative border-2 border-dashed rounded-lg p-12 text-center transition-colors",
+                uploadsDisabled
+                  ? "cursor-not-allowed opacity-60 bg-neutral-50"
+                  : "cursor-pointer hover:border-primary-400 hover:bg-primary-50/50",
+                fieldErrors.image ? "border-red-300 bg-red-50" : "border-neutral-300"
+              )}
             >
               <input
                 ref={fileInputRef}
                 type="file"
                 accept="image/*"
                 onChange={handleFileSelect}
+                disabled={uploadsDisabled}
                 className="hidden"
               />
               <Upload className="w-12 h-12 text-neutral-400 mx-auto mb-4" />
               <p className="text-neutral-600 font-medium">
-                Click to upload or drag and drop
+                {uploadsDisabled ? t("upload.offlineInline") : t("upload.prompt")}
               </p>
               <p className="text-sm text-neutral-500 mt-1">
-                PNG, JPG, WEBP up to 15MB (minimum 400×400px recommended)
+                {t("upload.hint")}
               </p>
             </div>
           )}
+          {fieldErrors.image && (
+            <p className="mt-1 text-sm text-red-600">{fieldErrors.image}</p>
+          )}
         </div>
 
         {/* Success Message */}
@@ -332,17 +343,17 @@ export function CatalogManager() {
         {error && (
           <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
             <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
-            <p className="text-sm text-red-700">{error}</p>
+            <p className="text-sm text-red-700 whitespace-pre-line">{error}</p>
           </div>
         )}
 
         {/* Submit Button */}
         <button
           type="submit"
-          disabled={loading}
+          disabled={loading || uploadsDisabled}
           className={cn(
             "w-full py-3 px-6 rounded-lg font-semibold text-white transition-colors flex items-center justify-center space-x-2",
-            loading
+            loading || uploadsDisabled
               ? "bg-neutral-300 cursor-not-allowed"
               : "bg-primary-600 hover:bg-primary-700 shadow-md hover:shadow-lg"
           )}
@@ -350,10 +361,10 @@ export function CatalogManager() {
           {loading ? (
             <>
               <Loader2 className="w-5 h-5 animate-spin" />
-              <span>Adding to Catalog...</span>
+              <span>{t("catalog.submitting")}</span>
             </>
           ) : (
-            <span>Add to Catalog</span>
+            <span>{t("catalog.submit")}</span>
           )}
         </button>
       </form>
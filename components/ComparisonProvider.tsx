@@ -0,0 +1,175 @@
+"use client";
+
+import { createContext, useCallback, useContext, useSyncExternalStore } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { Columns3, Package, X } from "lucide-react";
+import { SearchHit } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { hitName } from "@/lib/i18n";
+import { createLocalStorageStore } from "@/lib/localStorageStore";
+import { useLocale } from "./LocaleProvider";
+
+const COMPARISON_STORAGE_KEY = "comparison";
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+const NO_HITS: SearchHit[] = [];
+
+const comparisonStore = createLocalStorageStore<SearchHit[]>(COMPARISON_STORAGE_KEY, (raw) => {
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((hit): hit is SearchHit => typeof hit?.pinecone_id === "string").slice(0, MAX_COMPARE)
+      : NO_HITS;
+  } catch {
+    return NO_HITS;
+  }
+});
+
+interface ComparisonContextValue {
+  /** In the order they were selected */
+  hits: SearchHit[];
+  isSelected: (pineconeId: string) => boolean;
+  /** Add or remove a hit; adding is ignored once MAX_COMPARE are selected */
+  toggleHit: (hit: SearchHit) => void;
+  removeHit: (pineconeId: string) => void;
+  clear: () => void;
+}
+
+const ComparisonContext = createContext<ComparisonContextValue>({
+  hits: NO_HITS,
+  isSelected: () => false,
+  toggleHit: () => {},
+  removeHit: () => {},
+  clear: () => {},
+});
+
+export function ComparisonProvider({ children }: { children: React.ReactNode }) {
+  const hits = useSyncExternalStore(comparisonStore.subscribe, comparisonStore.read, () => NO_HITS);
+
+  const isSelected = useCallback(
+    (pineconeId: string) => hits.some((hit) => hit.pinecone_id === pineconeId),
+    [hits]
+  );
+
+  const toggleHit = useCallback((hit: SearchHit) => {
+    const current = comparisonStore.read();
+    if (current.some((other) => other.pinecone_id === hit.pinecone_id)) {
+      comparisonStore.write(current.filter((other) => other.pinecone_id !== hit.pinecone_id));
+    } else if (current.length < MAX_COMPARE) {
+      comparisonStore.write([...current, hit]);
+    }
+  }, []);
+
+  const removeHit = useCallback((pineconeId: string) => {
+    comparisonStore.write(comparisonStore.read().filter((hit) => hit.pinecone_id !== pineconeId));
+  }, []);
+
+  const clear = useCallback(() => comparisonStore.write([]), []);
+
+  return (
+    <ComparisonContext.Provider value={{ hits, isSelected, toggleHit, removeHit, clear }}>
+      {children}
+    </ComparisonContext.Provider>
+  );
+}
+
+export function useComparison(): ComparisonContextValue {
+  return useContext(ComparisonContext);
+}
+
+/**
+ * Add/remove toggle for the comparison. Safe to place inside a link or
+ * clickable card: the click does not propagate.
+ */
+export function CompareToggle({ hit, className }: { hit: SearchHit; className?: string }) {
+  const { hits, isSelected, toggleHit } = useComparison();
+  const { t } = useLocale();
+  const selected = isSelected(hit.pinecone_id);
+  const full = !selected && hits.length >= MAX_COMPARE;
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        toggleHit(hit);
+      }}
+      disabled={full}
+      className={cn(
+        "flex items-center space-x-1 px-2 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
+        selected ? "bg-primary-50 text-primary-700" : "text-neutral-600 hover:bg-neutral-100",
+        className
+      )}
+      title={full ? t("compare.full", { max: MAX_COMPARE }) : undefined}
+      aria-pressed={selected}
+    >
+      <Columns3 className="w-3.5 h-3.5" />
+      <span>{selected ? t("compare.selected") : t("compare.add")}</span>
+    </button>
+  );
+}
+
+/**
+ * Bar along the bottom of the page listing the products picked for
+ * comparison, hidden on the comparison page itself
+ */
+export function ComparisonTray() {
+  const { hits, removeHit, clear } = useComparison();
+  const { t, locale } = useLocale();
+  const pathname = usePathname();
+
+  if (hits.length === 0 || pathname === "/compare") return null;
+
+  const ready = hits.length >= MIN_COMPARE;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-3 bg-white rounded-xl border border-neutral-200 shadow-xl print:hidden">
+      <span className="text-sm font-medium text-neutral-700">
+        {t("compare.count", { count: hits.length })}
+      </span>
+      <ul className="flex items-center gap-2">
+        {hits.map((hit) => (
+          <li key={hit.pinecone_id} className="relative">
+            <div
+              className="w-10 h-10 rounded bg-neutral-100 overflow-hidden flex items-center justify-center"
+              title={hitName(hit, locale)}
+            >
+              {hit.image_url ? (
+                <img src={hit.image_url} alt={hitName(hit, locale)} className="w-full h-full object-cover" />
+              ) : (
+                <Package className="w-4 h-4 text-neutral-400" />
+              )}
+            </div>
+            <button
+              onClick={() => removeHit(hit.pinecone_id)}
+              className="absolute -top-1.5 -end-1.5 p-0.5 bg-white rounded-full border border-neutral-200 hover:bg-neutral-100"
+              title={t("compare.remove")}
+            >
+              <X className="w-3 h-3 text-neutral-600" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={clear}
+        className="px-2 py-1 text-xs font-medium text-neutral-600 hover:bg-neutral-100 rounded transition-colors"
+      >
+        {t("compare.clear")}
+      </button>
+      {ready ? (
+        <Link
+          href="/compare"
+          className="px-4 py-2 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 transition-colors"
+        >
+          {t("compare.open")}
+        </Link>
+      ) : (
+        <span className="px-4 py-2 text-sm text-neutral-500">{t("compare.needMore", { min: MIN_COMPARE })}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { createContext, useCallback, useContext, useSyncExternalStore } from "react";
+import { SearchHit } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { localeTag } from "@/lib/i18n";
+import {
+  BASE_CURRENCY,
+  DISPLAY_CURRENCIES,
+  convertPrice,
+  formatHitPrice,
+  formatOriginalPrice,
+  formatPrice,
+} from "@/lib/currency";
+import { createLocalStorageStore } from "@/lib/localStorageStore";
+import { useLocale } from "./LocaleProvider";
+
+const CURRENCY_STORAGE_KEY = "displayCurrency";
+
+const currencyStore = createLocalStorageStore<string>(
+  CURRENCY_STORAGE_KEY,
+  (stored) => (stored && DISPLAY_CURRENCIES.includes(stored) ? stored : BASE_CURRENCY),
+  (currency) => currency
+);
+
+type PricedHit = Pick<SearchHit, "price_amount" | "price_unit">;
+
+interface CurrencyContextValue {
+  currency: string;
+  setCurrency: (currency: string) => void;
+  /** Hit price in the display currency, or null if it has no price */
+  formatHit: (hit: PricedHit) => string | null;
+  /** Price before conversion, or null if it was not converted */
+  formatOriginal: (hit: PricedHit) => string | null;
+  /** Format an amount given in BASE_CURRENCY, e.g. a price filter bound */
+  formatBaseAmount: (amount: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextValue>({
+  currency: BASE_CURRENCY,
+  setCurrency: () => {},
+  formatHit: (hit) => formatHitPrice(hit, BASE_CURRENCY),
+  formatOriginal: () => null,
+  formatBaseAmount: (amount) => formatPrice(amount, BASE_CURRENCY),
+});
+
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const currency = useSyncExternalStore(currencyStore.subscribe, currencyStore.read, () => BASE_CURRENCY);
+  const { locale } = useLocale();
+  const numberLocale = localeTag(locale);
+
+  const setCurrency = useCallback((next: string) => currencyStore.write(next), []);
+
+  const formatHit = useCallback(
+    (hit: PricedHit) => formatHitPrice(hit, currency, numberLocale),
+    [currency, numberLocale]
+  );
+  const formatOriginal = useCallback(
+    (hit: PricedHit) => formatOriginalPrice(hit, currency, numberLocale),
+    [currency, numberLocale]
+  );
+  const formatBaseAmount = useCallback(
+    (amount: number) =>
+      formatPrice(convertPrice(amount, BASE_CURRENCY, currency) ?? amount, currency, numberLocale),
+    [currency, numberLocale]
+  );
+
+  return (
+    <CurrencyContext.Provider value={{ currency, setCurrency, formatHit, formatOriginal, formatBaseAmount }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency(): CurrencyContextValue {
+  return useContext(CurrencyContext);
+}
+
+/**
+ * Display-currency setting
+ */
+export function CurrencySelect({ className }: { className?: string }) {
+  const { currency, setCurrency } = useCurrency();
+  const { t } = useLocale();
+
+  return (
+    <select
+      value={currency}
+      onChange={(e) => setCurrency(e.target.value)}
+      className={cn(
+        "px-2 py-1 border border-neutral-200 rounded-md text-xs font-medium text-neutral-700 bg-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none",
+        className
+      )}
+      aria-label={t("currency.label")}
+      title={t("currency.ratesNote")}
+    >
+      {DISPLAY_CURRENCIES.map((code) => (
+        <option key={code} value={code}>
+          {code}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, Download } from "lucide-react";
+import { SearchHit } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { downloadFile } from "@/lib/csv";
+import { exportHitsFile, HitExportContext, HitExportFormat } from "@/lib/exportHits";
+import { useLocale } from "./LocaleProvider";
+
+const FORMATS: HitExportFormat[] = ["csv", "json"];
+
+/**
+ * Download the given hits, in the order given, as CSV or JSON
+ */
+export function ExportResultsMenu({
+  hits,
+  context,
+  className,
+}: {
+  hits: SearchHit[];
+  context: HitExportContext;
+  className?: string;
+}) {
+  const { t } = useLocale();
+  const [open, setOpen] = useState(false);
+
+  const handleExport = (format: HitExportFormat) => {
+    const { content, fileName, type } = exportHitsFile(hits, context, format);
+    downloadFile(content, fileName, type);
+    setOpen(false);
+  };
+
+  return (
+    <div
+      className={cn("relative", className)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget)) setOpen(false);
+      }}
+    >
+      <button
+        type="button"
+        onClick={() => setOpen((current) => !current)}
+        disabled={hits.length === 0}
+        className="flex items-center space-x-1 px-2 py-1 text-xs font-medium rounded-md border border-neutral-200 text-neutral-600 hover:bg-neutral-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title={t("export.hint")}
+      >
+        <Download className="w-3 h-3" />
+        <span>{t("export.label")}</span>
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {open && (
+        <div
+          role="menu"
+          className="absolute end-0 top-full mt-1 z-20 w-32 py-1 bg-white rounded-lg border border-neutral-200 shadow-lg"
+        >
+          {FORMATS.map((format) => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              onClick={() => handleExport(format)}
+              className="w-full px-3 py-1.5 text-start text-sm text-neutral-700 hover:bg-neutral-100"
+            >
+              {t(`export.${format}`)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { createContext, useCallback, useContext, useSyncExternalStore } from "react";
+import { Heart } from "lucide-react";
+import { SearchHit } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { createLocalStorageStore } from "@/lib/localStorageStore";
+import { useLocale } from "./LocaleProvider";
+
+const FAVORITES_STORAGE_KEY = "favorites";
+
+export interface Favorite {
+  /** Snapshot of the hit, refreshed whenever it shows up in new results */
+  hit: SearchHit;
+  addedAt: number;
+}
+
+const NO_FAVORITES: Favorite[] = [];
+
+const favoritesStore = createLocalStorageStore<Favorite[]>(FAVORITES_STORAGE_KEY, (raw) => {
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is Favorite => typeof item?.hit?.pinecone_id === "string")
+      : NO_FAVORITES;
+  } catch {
+    return NO_FAVORITES;
+  }
+});
+
+interface FavoritesContextValue {
+  /** Newest first */
+  favorites: Favorite[];
+  isFavorite: (pineconeId: string) => boolean;
+  toggleFavorite: (hit: SearchHit) => void;
+  removeFavorites: (pineconeIds: string[]) => void;
+  /** Update stored snapshots from fresh results, e.g. to pick up price or availability changes */
+  refreshFavorites: (hits: SearchHit[]) => void;
+}
+
+const FavoritesContext = createContext<FavoritesContextValue>({
+  favorites: NO_FAVORITES,
+  isFavorite: () => false,
+  toggleFavorite: () => {},
+  removeFavorites: () => {},
+  refreshFavorites: () => {},
+});
+
+export function FavoritesProvider({ children }: { children: React.ReactNode }) {
+  const favorites = useSyncExternalStore(favoritesStore.subscribe, favoritesStore.read, () => NO_FAVORITES);
+
+  const isFavorite = useCallback(
+    (pineconeId: string) => favorites.some((favorite) => favorite.hit.pinecone_id === pineconeId),
+    [favorites]
+  );
+
+  const toggleFavorite = useCallback((hit: SearchHit) => {
+    const current = favoritesStore.read();
+    const exists = current.some((favorite) => favorite.hit.pinecone_id === hit.pinecone_id);
+    favoritesStore.write(
+      exists
+        ? current.filter((favorite) => favorite.hit.pinecone_id !== hit.pinecone_id)
+        : [{ hit, addedAt: Date.now() }, ...current]
+    );
+  }, []);
+
+  const removeFavorites = useCallback((pineconeIds: string[]) => {
+    const ids = new Set(pineconeIds);
+    favoritesStore.write(favoritesStore.read().filter((favorite) => !ids.has(favorite.hit.pinecone_id)));
+  }, []);
+
+  const refreshFavorites = useCallback((hits: SearchHit[]) => {
+    const current = favoritesStore.read();
+    if (current.length === 0 || hits.length === 0) return;
+    const fresh = new Map(hits.map((hit) => [hit.pinecone_id, hit]));
+    let changed = false;
+    const next = current.map((favorite) => {
+      const hit = fresh.get(favorite.hit.pinecone_id);
+      if (!hit || JSON.stringify(hit) === JSON.stringify(favorite.hit)) return favorite;
+      changed = true;
+      return { ...favorite, hit };
+    });
+    if (changed) favoritesStore.write(next);
+  }, []);
+
+  return (
+    <FavoritesContext.Provider value={{ favorites, isFavorite, toggleFavorite, removeFavorites, refreshFavorites }}>
+      {children}
+    </FavoritesContext.Provider>
+  );
+}
+
+export function useFavorites(): FavoritesContextValue {
+  return useContext(FavoritesContext);
+}
+
+/**
+ * Heart toggle for saving a hit to the wishlist. Safe to place inside a
+ * link or clickable card: the click does not propagate.
+ */
+export function FavoriteButton({ hit, className }: { hit: SearchHit; className?: string }) {
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const { t } = useLocale();
+  const active = isFavorite(hit.pinecone_id);
+  const label = active ? t("favorites.remove") : t("favorites.add");
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        toggleFavorite(hit);
+      }}
+      className={cn(
+        "p-1.5 rounded-full bg-white/90 hover:bg-white shadow-sm transition-colors",
+        className
+      )}
+      title={label}
+      aria-label={label}
+      aria-pressed={active}
+    >
+      <Heart className={cn("w-4 h-4", active ? "fill-red-500 text-red-500" : "text-neutral-500")} />
+    </button>
+  );
+}
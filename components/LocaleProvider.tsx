@@ -0,0 +1,91 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useSyncExternalStore } from "react";
+import { Languages } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { createLocalStorageStore } from "@/lib/localStorageStore";
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  Locale,
+  TranslationKey,
+  TranslationParams,
+  isLocale,
+  textDirection,
+  translate,
+} from "@/lib/i18n";
+
+const LOCALE_STORAGE_KEY = "locale";
+
+const localeStore = createLocalStorageStore<Locale>(
+  LOCALE_STORAGE_KEY,
+  (stored) => (isLocale(stored) ? stored : DEFAULT_LOCALE),
+  (locale) => locale
+);
+
+interface LocaleContextValue {
+  locale: Locale;
+  dir: "ltr" | "rtl";
+  setLocale: (locale: Locale) => void;
+  t: (key: TranslationKey, params?: TranslationParams) => string;
+}
+
+const LocaleContext = createContext<LocaleContextValue>({
+  locale: DEFAULT_LOCALE,
+  dir: textDirection(DEFAULT_LOCALE),
+  setLocale: () => {},
+  t: (key, params) => translate(DEFAULT_LOCALE, key, params),
+});
+
+export function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const locale = useSyncExternalStore(localeStore.subscribe, localeStore.read, () => DEFAULT_LOCALE);
+  const dir = textDirection(locale);
+
+  // Layout direction and language apply to the whole document
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  const setLocale = useCallback((next: Locale) => localeStore.write(next), []);
+
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) => translate(locale, key, params),
+    [locale]
+  );
+
+  return (
+    <LocaleContext.Provider value={{ locale, dir, setLocale, t }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+export function useLocale(): LocaleContextValue {
+  return useContext(LocaleContext);
+}
+
+/**
+ * Language switcher
+ */
+export function LocaleSelect({ className }: { className?: string }) {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <label className={cn("flex items-center space-x-1 text-neutral-500", className)} title={t("nav.language")}>
+      <Languages className="w-4 h-4" />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="px-2 py-1 border border-neutral-200 rounded-md text-xs font-medium text-neutral-700 bg-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+        aria-label={t("nav.language")}
+      >
+        {LOCALES.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
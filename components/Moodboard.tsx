@@ -0,0 +1,475 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { flushSync } from "react-dom";
+import { usePathname } from "next/navigation";
+import { Check, Download, Loader2, Package, Printer, StickyNote, Trash2, X } from "lucide-react";
+import { SearchHit } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { downloadFile } from "@/lib/csv";
+import { hitName } from "@/lib/i18n";
+import {
+  BOARD_HEIGHT,
+  BOARD_WIDTH,
+  CAPTION_LINE_HEIGHT,
+  ITEM_PADDING,
+  ITEM_WIDTHS,
+  MoodboardItem,
+  NewMoodboardItem,
+  addToMoodboard,
+  clampPosition,
+  getMoodboardItems,
+  hasMoodboardDragData,
+  placeItem,
+  readMoodboardDragData,
+  renderMoodboardPng,
+  saveMoodboardItems,
+} from "@/lib/moodboard";
+import { useCurrency } from "./CurrencyProvider";
+import { useLocale } from "./LocaleProvider";
+import { MoodboardSources } from "./MoodboardSources";
+
+// How long the drop zone confirms an added item
+const ADDED_CONFIRMATION_MS = 1500;
+
+export function Moodboard() {
+  const { t, locale } = useLocale();
+  const { formatHit } = useCurrency();
+  const [items, setItems] = useState<MoodboardItem[] | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [confirmingClear, setConfirmingClear] = useState(false);
+  // Board snapshot shown in the print layout
+  const [printImageUrl, setPrintImageUrl] = useState<string | null>(null);
+  const boardRef = useRef<HTMLDivElement>(null);
+  // Item being moved, with the pointer offset inside it
+  const moveRef = useRef<{ id: string; offsetX: number; offsetY: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getMoodboardItems().then((loaded) => {
+      if (!cancelled) setItems(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (printImageUrl) URL.revokeObjectURL(printImageUrl);
+    };
+  }, [printImageUrl]);
+
+  const describeProduct = (hit: SearchHit): string[] =>
+    [hitName(hit, locale), formatHit(hit), hit.store].filter((line): line is string => Boolean(line));
+
+  const commit = (next: MoodboardItem[]) => {
+    setItems(next);
+    void saveMoodboardItems(next);
+  };
+
+  const addItem = (item: NewMoodboardItem, position?: { x: number; y: number }) => {
+    if (!items) return;
+    commit([...items, placeItem(item, items, position)]);
+  };
+
+  const boardPoint = (clientX: number, clientY: number) => {
+    const rect = boardRef.current?.getBoundingClientRect();
+    return rect ? { x: clientX - rect.left, y: clientY - rect.top } : { x: 0, y: 0 };
+  };
+
+  const handleItemPointerDown = (e: React.PointerEvent<HTMLDivElement>, item: MoodboardItem) => {
+    // Let notes be edited and buttons be clicked
+    if ((e.target as HTMLElement).closest("textarea, button")) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = boardPoint(e.clientX, e.clientY);
+    moveRef.current = { id: item.id, offsetX: point.x - item.x, offsetY: point.y - item.y };
+  };
+
+  const handleItemPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const move = moveRef.current;
+    if (!move) return;
+    const point = boardPoint(e.clientX, e.clientY);
+    setItems(
+      (current) =>
+        current &&
+        current.map((item) =>
+          item.id === move.id
+            ? { ...item, ...clampPosition(item, { x: point.x - move.offsetX, y: point.y - move.offsetY }) }
+            : item
+        )
+    );
+  };
+
+  const handleItemPointerUp = () => {
+    const move = moveRef.current;
+    if (!move || !items) return;
+    moveRef.current = null;
+    // Bring the moved item to the front; reordering mid-drag would lose the pointer capture
+    const moved = items.find((item) => item.id === move.id);
+    commit(moved ? [...items.filter((item) => item.id !== move.id), moved] : items);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasMoodboardDragData(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    setDragOver(false);
+    const item = readMoodboardDragData(e.dataTransfer);
+    if (!item) return;
+    e.preventDefault();
+    const point = boardPoint(e.clientX, e.clientY);
+    // Centre the item horizontally on the pointer
+    addItem(item, { x: point.x - ITEM_WIDTHS[item.kind] / 2, y: point.y - 20 });
+  };
+
+  const renderBoard = async (): Promise<Blob | null> => {
+    setExporting(true);
+    setExportError(null);
+    try {
+      return await renderMoodboardPng(items ?? [], describeProduct);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : t("moodboard.exportError"));
+      return null;
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportPng = async () => {
+    const blob = await renderBoard();
+    if (!blob) return;
+    downloadFile(blob, `moodboard-${new Date().toISOString().slice(0, 10)}.png`, "image/png");
+  };
+
+  const handlePrint = async () => {
+    const blob = await renderBoard();
+    // The error is already shown; printing now would give a blank board
+    if (!blob) return;
+    // The print layout must contain the snapshot before the dialog opens
+    flushSync(() => setPrintImageUrl(URL.createObjectURL(blob)));
+    window.print();
+  };
+
+  if (items === null) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="w-10 h-10 animate-spin text-primary-600" />
+      </div>
+    );
+  }
+
+  const products = items.flatMap((item) => (item.kind === "product" ? [item.hit] : []));
+
+  return (
+    <>
+      <div className="flex gap-6 print:hidden">
+        <MoodboardSources onAdd={(item) => addItem(item)} className="w-72 flex-shrink-0" />
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between mb-3">
+            <button
+              onClick={() => addItem({ kind: "note", text: t("moodboard.newNote") })}
+              className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-neutral-700 border border-neutral-300 hover:bg-neutral-50 rounded-lg transition-colors"
+            >
+              <StickyNote className="w-4 h-4" />
+              <span>{t("moodboard.addNote")}</span>
+            </button>
+            <div className="flex items-center space-x-2">
+              {confirmingClear ? (
+                <>
+                  <span className="text-sm text-neutral-600">{t("moodboard.confirmClear")}</span>
+                  <button
+                    onClick={() => setConfirmingClear(false)}
+                    className="px-3 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100 rounded-lg transition-colors"
+                  >
+                    {t("moodboard.cancel")}
+                  </button>
+                  <button
+                    onClick={() => {
+                      commit([]);
+                      setConfirmingClear(false);
+                    }}
+                    className="px-3 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors"
+                  >
+                    {t("moodboard.clear")}
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => setConfirmingClear(true)}
+                  disabled={items.length === 0}
+                  className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>{t("moodboard.clear")}</span>
+                </button>
+              )}
+              <button
+                onClick={handleExportPng}
+                disabled={exporting || items.length === 0}
+                className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-neutral-700 border border-neutral-300 hover:bg-neutral-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                <span>{t("moodboard.exportPng")}</span>
+              </button>
+              <button
+                onClick={handlePrint}
+                disabled={exporting || items.length === 0}
+                className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title={t("moodboard.printHint")}
+              >
+                <Printer className="w-4 h-4" />
+                <span>{t("moodboard.print")}</span>
+              </button>
+            </div>
+          </div>
+
+          {exportError && <p className="mb-3 text-sm text-red-600">{exportError}</p>}
+
+          <div className="overflow-auto rounded-lg border border-neutral-200 bg-neutral-100">
+            <div
+              ref={boardRef}
+              dir="ltr"
+              className={cn("relative bg-white select-none", dragOver && "ring-2 ring-inset ring-primary-500")}
+              style={{ width: BOARD_WIDTH, height: BOARD_HEIGHT }}
+              onDragOver={handleDragOver}
+              onDragLeave={() => setDragOver(false)}
+              onDrop={handleDrop}
+            >
+              {items.length === 0 && (
+                <p className="absolute inset-0 flex items-center justify-center text-neutral-400">
+                  {t("moodboard.empty")}
+                </p>
+              )}
+              {items.map((item) => (
+                <BoardItem
+                  key={item.id}
+                  item={item}
+                  describeProduct={describeProduct}
+                  onPointerDown={(e) => handleItemPointerDown(e, item)}
+                  onPointerMove={handleItemPointerMove}
+                  onPointerUp={handleItemPointerUp}
+                  onRemove={() => commit(items.filter((other) => other.id !== item.id))}
+                  onNoteChange={(text) =>
+                    commit(items.map((other) => (other.id === item.id ? { ...other, text } : other)))
+                  }
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <MoodboardPrintView imageUrl={printImageUrl} products={products} className="hidden print:block" />
+    </>
+  );
+}
+
+function BoardItem({
+  item,
+  describeProduct,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp,
+  onRemove,
+  onNoteChange,
+}: {
+  item: MoodboardItem;
+  describeProduct: (hit: SearchHit) => string[];
+  onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerUp: () => void;
+  onRemove: () => void;
+  onNoteChange: (text: string) => void;
+}) {
+  const { t } = useLocale();
+  const [imageError, setImageError] = useState(false);
+
+  return (
+    <div
+      className={cn(
+        "group absolute cursor-move touch-none",
+        item.kind === "product" && "bg-white border border-neutral-200 shadow-sm",
+        item.kind === "note" && "bg-yellow-100 shadow-sm"
+      )}
+      style={{ left: item.x, top: item.y, width: ITEM_WIDTHS[item.kind] }}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+    >
+      {item.kind === "product" && (
+        <>
+          <div className="aspect-square bg-neutral-100 flex items-center justify-center overflow-hidden">
+            {item.hit.image_url && !imageError ? (
+              <img
+                src={item.hit.image_url}
+                alt=""
+                className="w-full h-full object-cover pointer-events-none"
+                onError={() => setImageError(true)}
+              />
+            ) : (
+              <Package className="w-10 h-10 text-neutral-400" />
+            )}
+          </div>
+          <div style={{ padding: ITEM_PADDING }}>
+            {describeProduct(item.hit).map((line, index) => (
+              <p
+                key={index}
+                className={cn("truncate", index === 0 ? "text-[13px] font-semibold text-neutral-900" : "text-xs text-neutral-600")}
+                style={{ lineHeight: `${CAPTION_LINE_HEIGHT}px` }}
+                dir="auto"
+              >
+                {line}
+              </p>
+            ))}
+          </div>
+        </>
+      )}
+
+      {item.kind === "image" && (
+        <img src={item.src} alt={item.label} title={item.label} className="w-full h-auto pointer-events-none" />
+      )}
+
+      {item.kind === "note" && (
+        <textarea
+          value={item.text}
+          onChange={(e) => onNoteChange(e.target.value)}
+          rows={Math.max(2, item.text.split("\n").length + Math.floor(item.text.length / 28))}
+          className="block w-full resize-none bg-transparent text-sm text-neutral-700 outline-none cursor-text"
+          style={{ padding: ITEM_PADDING, lineHeight: `${CAPTION_LINE_HEIGHT}px` }}
+          dir="auto"
+        />
+      )}
+
+      <button
+        onClick={onRemove}
+        className="absolute -top-2.5 -right-2.5 p-1 bg-white rounded-full border border-neutral-200 shadow-sm opacity-0 group-hover:opacity-100 transition-opacity"
+        title={t("moodboard.remove")}
+      >
+        <X className="w-3 h-3 text-neutral-600" />
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Print-only layout: the board snapshot followed by the product list, so
+ * "Save as PDF" in the print dialog gives a shareable document
+ */
+function MoodboardPrintView({
+  imageUrl,
+  products,
+  className,
+}: {
+  imageUrl: string | null;
+  products: SearchHit[];
+  className?: string;
+}) {
+  const { t, locale } = useLocale();
+  const { formatHit } = useCurrency();
+
+  return (
+    <div className={className}>
+      <h1 className="text-2xl font-bold text-neutral-900 mb-4">{t("moodboardPage.title")}</h1>
+      {imageUrl && <img src={imageUrl} alt={t("moodboardPage.title")} className="w-full h-auto mb-6 border border-neutral-200" />}
+      {products.length > 0 && (
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="border-b border-neutral-300 text-start">
+              <th className="py-2 pe-3 text-start">{t("moodboard.product")}</th>
+              <th className="py-2 pe-3 text-start">{t("compare.price")}</th>
+              <th className="py-2 pe-3 text-start">{t("compare.store")}</th>
+              <th className="py-2 text-start">{t("compare.link")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {products.map((hit, index) => (
+              <tr key={`${hit.pinecone_id}-${index}`} className="border-b border-neutral-200 align-top">
+                <td className="py-2 pe-3">{hitName(hit, locale)}</td>
+                <td className="py-2 pe-3 whitespace-nowrap">{formatHit(hit) ?? "—"}</td>
+                <td className="py-2 pe-3">{hit.store || "—"}</td>
+                <td className="py-2 break-all" dir="ltr">
+                  {hit.product_url ? <a href={hit.product_url}>{hit.product_url}</a> : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Drop target shown while a product is dragged anywhere outside the
+ * moodboard page; dropped items are added to the stored board
+ */
+export function MoodboardDropZone() {
+  const { t } = useLocale();
+  const pathname = usePathname();
+  const [dragging, setDragging] = useState(false);
+  const [over, setOver] = useState(false);
+  const [added, setAdded] = useState(false);
+
+  useEffect(() => {
+    const handleDragStart = (e: DragEvent) => {
+      if (e.dataTransfer && hasMoodboardDragData(e.dataTransfer)) setDragging(true);
+    };
+    const handleDragEnd = () => setDragging(false);
+    window.addEventListener("dragstart", handleDragStart);
+    window.addEventListener("dragend", handleDragEnd);
+    return () => {
+      window.removeEventListener("dragstart", handleDragStart);
+      window.removeEventListener("dragend", handleDragEnd);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!added) return;
+    const timer = setTimeout(() => setAdded(false), ADDED_CONFIRMATION_MS);
+    return () => clearTimeout(timer);
+  }, [added]);
+
+  if (pathname === "/moodboard" || (!dragging && !added)) return null;
+
+  return (
+    <div
+      className={cn(
+        "fixed bottom-24 end-6 z-50 flex items-center space-x-2 px-5 py-4 rounded-xl border-2 border-dashed shadow-xl text-sm font-medium transition-colors print:hidden",
+        added
+          ? "bg-primary-50 border-primary-500 text-primary-700"
+          : over
+            ? "bg-primary-100 border-primary-600 text-primary-800"
+            : "bg-white border-primary-300 text-primary-700"
+      )}
+      onDragOver={(e) => {
+        if (!hasMoodboardDragData(e.dataTransfer)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "copy";
+        setOver(true);
+      }}
+      onDragLeave={() => setOver(false)}
+      onDrop={async (e) => {
+        e.preventDefault();
+        setOver(false);
+        setDragging(false);
+        const item = readMoodboardDragData(e.dataTransfer);
+        if (!item) return;
+        await addToMoodboard(item);
+        setAdded(true);
+      }}
+    >
+      {added ? <Check className="w-5 h-5" /> : <StickyNote className="w-5 h-5" />}
+      <span>{added ? t("moodboard.added") : t("moodboard.dropHere")}</span>
+    </div>
+  );
+}
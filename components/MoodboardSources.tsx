@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Package } from "lucide-react";
+import { SearchHit } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { categoryLabel } from "@/lib/categories";
+import { hitName } from "@/lib/i18n";
+import { mergeHits } from "@/lib/hits";
+import { createThumbnail, cropImage } from "@/lib/imageUtils";
+import { NewMoodboardItem, setMoodboardDragData } from "@/lib/moodboard";
+import { HistoryEntry, listHistory } from "@/lib/searchHistory";
+import { useFavorites } from "./FavoritesProvider";
+import { useLocale } from "./LocaleProvider";
+
+// Longest side of room photos and crops placed on the board
+const ROOM_IMAGE_SIZE = 800;
+const CROP_IMAGE_SIZE = 400;
+
+type ImageSource = Extract<NewMoodboardItem, { kind: "image" }>;
+
+/**
+ * Room photo plus a crop of every object searched in it, as data URLs
+ */
+async function loadRoomImages(
+  entry: HistoryEntry,
+  cropLabel: (category: string | null) => string
+): Promise<ImageSource[]> {
+  const file = new File([entry.image], entry.fileName, { type: entry.image.type });
+  const images: ImageSource[] = [
+    { kind: "image", src: await createThumbnail(file, ROOM_IMAGE_SIZE), label: entry.fileName },
+  ];
+  for (const search of entry.searches) {
+    try {
+      const crop = await cropImage(file, search.bbox);
+      images.push({
+        kind: "image",
+        src: await createThumbnail(crop, CROP_IMAGE_SIZE),
+        label: cropLabel(search.category),
+      });
+    } catch {
+      // Skip crops that fail; the rest of the room is still usable
+    }
+  }
+  return images;
+}
+
+/**
+ * Things that can be dragged onto the moodboard: a past room with its
+ * object crops and search results, and the wishlist
+ */
+export function MoodboardSources({
+  onAdd,
+  className,
+}: {
+  onAdd: (item: NewMoodboardItem) => void;
+  className?: string;
+}) {
+  const { t, locale } = useLocale();
+  const { favorites } = useFavorites();
+  const [rooms, setRooms] = useState<HistoryEntry[] | null>(null);
+  const [roomId, setRoomId] = useState<string | null>(null);
+  const [roomImages, setRoomImages] = useState<{ roomId: string; images: ImageSource[] } | null>(null);
+  const room = rooms?.find((entry) => entry.id === roomId) ?? rooms?.[0] ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+    listHistory().then((entries) => {
+      if (!cancelled) setRooms(entries);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!room) return;
+    let cancelled = false;
+    loadRoomImages(room, (category) =>
+      category ? categoryLabel(category, locale) : t("moodboard.crop")
+    ).then((images) => {
+      if (!cancelled) setRoomImages({ roomId: room.id, images });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [room, locale, t]);
+
+  const roomHits = room ? room.searches.reduce<SearchHit[]>((hits, search) => mergeHits(hits, search.hits), []) : [];
+  const images = roomImages && room && roomImages.roomId === room.id ? roomImages.images : null;
+
+  return (
+    <aside className={cn("space-y-6", className)}>
+      <p className="text-xs text-neutral-500">{t("moodboard.sourceHint")}</p>
+
+      <section>
+        <h3 className="text-sm font-semibold text-neutral-900 mb-2">{t("moodboard.room")}</h3>
+        {rooms === null ? (
+          <Loader2 className="w-5 h-5 animate-spin text-primary-600" />
+        ) : !room ? (
+          <p className="text-xs text-neutral-500">{t("moodboard.noRooms")}</p>
+        ) : (
+          <>
+            {rooms.length > 1 && (
+              <select
+                value={room.id}
+                onChange={(e) => setRoomId(e.target.value)}
+                className="w-full mb-2 px-2 py-1.5 border border-neutral-300 rounded-lg text-sm text-neutral-700 focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+              >
+                {rooms.map((entry) => (
+                  <option key={entry.id} value={entry.id}>
+                    {entry.fileName}
+                  </option>
+                ))}
+              </select>
+            )}
+            {images === null ? (
+              <Loader2 className="w-5 h-5 animate-spin text-primary-600" />
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {images.map((image, index) => (
+                  <SourceTile key={index} item={image} onAdd={onAdd} title={image.label}>
+                    <img src={image.src} alt={image.label} className="w-full h-full object-cover pointer-events-none" />
+                  </SourceTile>
+                ))}
+              </div>
+            )}
+            {roomHits.length > 0 && (
+              <>
+                <h4 className="mt-3 mb-2 text-xs font-medium text-neutral-600">{t("moodboard.results")}</h4>
+                <SourceHits hits={roomHits} onAdd={onAdd} />
+              </>
+            )}
+          </>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-sm font-semibold text-neutral-900 mb-2">{t("nav.wishlist")}</h3>
+        {favorites.length === 0 ? (
+          <p className="text-xs text-neutral-500">{t("moodboard.noWishlist")}</p>
+        ) : (
+          <SourceHits hits={favorites.map((favorite) => favorite.hit)} onAdd={onAdd} />
+        )}
+      </section>
+    </aside>
+  );
+}
+
+function SourceHits({ hits, onAdd }: { hits: SearchHit[]; onAdd: (item: NewMoodboardItem) => void }) {
+  const { locale } = useLocale();
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {hits.map((hit) => (
+        <SourceTile key={hit.pinecone_id} item={{ kind: "product", hit }} onAdd={onAdd} title={hitName(hit, locale)}>
+          {hit.image_url ? (
+            <img src={hit.image_url} alt={hitName(hit, locale)} className="w-full h-full object-cover pointer-events-none" />
+          ) : (
+            <Package className="w-5 h-5 text-neutral-400" />
+          )}
+        </SourceTile>
+      ))}
+    </div>
+  );
+}
+
+function SourceTile({
+  item,
+  onAdd,
+  title,
+  children,
+}: {
+  item: NewMoodboardItem;
+  onAdd: (item: NewMoodboardItem) => void;
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      draggable
+      onDragStart={(e) => setMoodboardDragData(e.dataTransfer, item)}
+      onClick={() => onAdd(item)}
+      className="aspect-square rounded bg-neutral-100 overflow-hidden flex items-center justify-center cursor-grab hover:ring-2 hover:ring-primary-500 transition"
+      title={title}
+    >
+      {children}
+    </button>
+  );
+}
@@ -2,25 +2,44 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Search, Package, Home } from "lucide-react";
+import { Search, Package, Home, Heart, LayoutDashboard } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatNumber, localeTag } from "@/lib/i18n";
+import { useBackendStatus, BackendStatus } from "./BackendStatusProvider";
+import { CurrencySelect } from "./CurrencyProvider";
+import { useFavorites } from "./FavoritesProvider";
+import { LocaleSelect, useLocale } from "./LocaleProvider";
+
+const STATUS_STYLES: Record<BackendStatus, { dot: string; badge: string }> = {
+  checking: { dot: "bg-neutral-400 animate-pulse", badge: "bg-neutral-50 text-neutral-600 border-neutral-200" },
+  connected: { dot: "bg-primary-500", badge: "bg-primary-50 text-primary-700 border-primary-200" },
+  degraded: { dot: "bg-amber-500", badge: "bg-amber-50 text-amber-700 border-amber-200" },
+  offline: { dot: "bg-red-500", badge: "bg-red-50 text-red-700 border-red-200" },
+};
 
 export function Navigation() {
   const pathname = usePathname();
+  const { status, detail, lastChecked } = useBackendStatus();
+  const { t, locale } = useLocale();
+  const { favorites } = useFavorites();
+  const statusStyle = STATUS_STYLES[status];
+  const statusLabel = t(`status.${status}`);
 
   const navItems = [
-    { href: "/", label: "Search", icon: Search },
-    { href: "/catalog", label: "Catalog", icon: Package },
+    { href: "/", label: t("nav.search"), icon: Search },
+    { href: "/catalog", label: t("nav.catalog"), icon: Package },
+    { href: "/wishlist", label: t("nav.wishlist"), icon: Heart, count: favorites.length },
+    { href: "/moodboard", label: t("nav.moodboard"), icon: LayoutDashboard },
   ];
 
   return (
-    <nav className="fixed top-0 left-0 right-0 z-50 border-b border-neutral-200 bg-white">
+    <nav className="fixed top-0 left-0 right-0 z-50 border-b border-neutral-200 bg-white print:hidden">
       <div className="container mx-auto px-4">
         <div className="flex items-center justify-between h-16">
           <Link href="/" className="flex items-center space-x-2">
             <Home className="w-6 h-6 text-primary-600" />
             <span className="text-xl font-semibold text-neutral-900">
-              Interior Visual Search
+              {t("nav.appName")}
             </span>
           </Link>
           <div className="flex items-center space-x-1">
@@ -40,9 +59,33 @@ export function Navigation() {
                 >
                   <Icon className="w-5 h-5" />
                   <span className="font-medium">{item.label}</span>
+                  {item.count ? (
+                    <span className="px-1.5 min-w-[1.25rem] text-center rounded-full bg-primary-600 text-white text-xs font-semibold">
+                      {formatNumber(item.count, locale)}
+                    </span>
+                  ) : null}
                 </Link>
               );
             })}
+            <div
+              className={cn(
+                "ms-3 flex items-center space-x-2 px-3 py-1 rounded-full border text-xs font-medium",
+                statusStyle.badge
+              )}
+              title={[
+                detail || t("nav.backendStatus", { status: statusLabel }),
+                lastChecked
+                  ? t("nav.lastChecked", { time: lastChecked.toLocaleTimeString(localeTag(locale)) })
+                  : null,
+              ]
+                .filter(Boolean)
+                .join("\n")}
+            >
+              <span className={cn("w-2 h-2 rounded-full", statusStyle.dot)} />
+              <span>{statusLabel}</span>
+            </div>
+            <CurrencySelect className="ms-2" />
+            <LocaleSelect className="ms-2" />
           </div>
         </div>
       </div>
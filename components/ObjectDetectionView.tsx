@@ -3,6 +3,9 @@
 import { useState, useRef, useEffect } from "react";
 import { SegmentedObject } from "@/lib/api";
 import { cn } from "@/lib/utils";
+import { categoryLabel } from "@/lib/categories";
+import { formatNumber } from "@/lib/i18n";
+import { useLocale } from "./LocaleProvider";
 
 interface ObjectDetectionViewProps {
   imageUrl: string;
@@ -11,6 +14,8 @@ interface ObjectDetectionViewProps {
   imageHeight: number;
   onObjectClick: (object: SegmentedObject) => void;
   loading?: boolean;
+  /** Object to show as selected from outside, e.g. while hovering its result group */
+  highlightedObjectId?: number | null;
 }
 
 export function ObjectDetectionView({
@@ -20,7 +25,9 @@ export function ObjectDetectionView({
   imageHeight,
   onObjectClick,
   loading = false,
+  highlightedObjectId = null,
 }: ObjectDetectionViewProps) {
+  const { t, locale } = useLocale();
   const [hoveredObjectId, setHoveredObjectId] = useState<number | null>(null);
   const [clickedObjectId, setClickedObjectId] = useState<number | null>(null);
   const [maskImages, setMaskImages] = useState<Map<number, string>>(new Map());
@@ -241,6 +248,9 @@ export function ObjectDetectionView({
     setHoveredObjectId(null);
   };
 
+  const objectLabel = (category: string) =>
+    category === "unknown" ? t("room.object") : categoryLabel(category, locale);
+
   const handleObjectClick = (object: SegmentedObject) => {
     // Toggle selection: if already clicked, deselect; otherwise select
     if (clickedObjectId === object.object_id) {
@@ -278,7 +288,7 @@ export function ObjectDetectionView({
           if (!displayBbox) return null;
 
           const isHovered = hoveredObjectId === obj.object_id;
-          const isClicked = clickedObjectId === obj.object_id;
+          const isClicked = clickedObjectId === obj.object_id || highlightedObjectId === obj.object_id;
           const shouldShow = isHovered || isClicked;
           const maskUrl = maskImages.get(obj.object_id);
 
@@ -301,7 +311,7 @@ export function ObjectDetectionView({
                 }}
                 onMouseEnter={() => setHoveredObjectId(obj.object_id)}
                 onClick={() => handleObjectClick(obj)}
-                title={`Click to search for ${obj.category === "unknown" ? "this object" : obj.category}`}
+                title={t("detect.clickToSearch", { label: objectLabel(obj.category) })}
               />
 
               {/* Visible elements - only show on hover or click */}
@@ -311,7 +321,7 @@ export function ObjectDetectionView({
                   <div
                     className="absolute inset-0 cursor-pointer z-20"
                     onClick={() => handleObjectClick(obj)}
-                    title={`Click to search for ${obj.category === "unknown" ? "this object" : obj.category}`}
+                    title={t("detect.clickToSearch", { label: objectLabel(obj.category) })}
                   />
 
                   {/* Bounding box outline - visible on hover only (not when clicked) */}
@@ -401,7 +411,7 @@ export function ObjectDetectionView({
                           : "bg-white/90 text-neutral-700 shadow-sm"
                       )}
                     >
-                      {obj.category === "unknown" ? "Object" : obj.category} ({(obj.score * 100).toFixed(0)}%)
+                      {objectLabel(obj.category)} ({formatNumber(obj.score, locale, { style: "percent" })})
                     </div>
                   )}
                 </>
@@ -416,7 +426,7 @@ export function ObjectDetectionView({
             <div className="bg-white rounded-lg px-4 py-2 shadow-lg">
               <div className="flex items-center space-x-2">
                 <div className="w-4 h-4 border-2 border-primary-600 border-t-transparent rounded-full animate-spin" />
-                <span className="text-sm text-neutral-700">Detecting objects...</span>
+                <span className="text-sm text-neutral-700">{t("detect.detecting")}</span>
               </div>
             </div>
           </div>
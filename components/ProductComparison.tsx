@@ -0,0 +1,185 @@
+"use client";
+
+import Link from "next/link";
+import { Columns3, ExternalLink, Package, X } from "lucide-react";
+import { SearchHit } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { categoryLabel } from "@/lib/categories";
+import { normalizedPrice } from "@/lib/currency";
+import { countryName, formatNumber, TranslationKey } from "@/lib/i18n";
+import { topScoredHit } from "@/lib/hits";
+import { useCurrency } from "./CurrencyProvider";
+import { MIN_COMPARE, useComparison } from "./ComparisonProvider";
+import { useLocale } from "./LocaleProvider";
+
+interface ComparisonRow {
+  label: TranslationKey;
+  /** Value the products are compared on; null when missing */
+  compareValue: (hit: SearchHit) => string | number | null;
+  render: (hit: SearchHit) => React.ReactNode;
+}
+
+/**
+ * True when the products do not all share the same value
+ */
+function rowDiffers(row: ComparisonRow, hits: SearchHit[]): boolean {
+  const values = hits.map((hit) => row.compareValue(hit));
+  return values.some((value) => value !== values[0]);
+}
+
+export function ProductComparison() {
+  const { hits, removeHit } = useComparison();
+  const { t, locale } = useLocale();
+  const { formatHit, formatOriginal } = useCurrency();
+
+  if (hits.length < MIN_COMPARE) {
+    return (
+      <div className="text-center py-16 bg-white rounded-lg border border-neutral-200">
+        <Columns3 className="w-16 h-16 text-neutral-300 mx-auto mb-4" />
+        <p className="text-xl text-neutral-600 mb-2 font-semibold">{t("compare.empty")}</p>
+        <p className="text-neutral-500 mb-6">{t("compare.emptyHint")}</p>
+        <Link
+          href="/"
+          className="px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium"
+        >
+          {t("wishlist.startSearch")}
+        </Link>
+      </div>
+    );
+  }
+
+  const prices = hits.map(normalizedPrice).filter((price): price is number => price !== null);
+  const lowestPrice = prices.length > 1 ? Math.min(...prices) : null;
+  const bestMatch = topScoredHit(hits);
+
+  const rows: ComparisonRow[] = [
+    {
+      label: "compare.nameEnglish",
+      compareValue: (hit) => hit.name_english || null,
+      render: (hit) => hit.name_english || "—",
+    },
+    {
+      label: "compare.nameArabic",
+      compareValue: (hit) => hit.name_arabic || null,
+      render: (hit) => <span dir="rtl">{hit.name_arabic || "—"}</span>,
+    },
+    {
+      label: "compare.category",
+      compareValue: (hit) => hit.category || null,
+      render: (hit) => (hit.category ? categoryLabel(hit.category, locale) : "—"),
+    },
+    {
+      label: "compare.price",
+      compareValue: normalizedPrice,
+      render: (hit) => {
+        const price = formatHit(hit);
+        if (!price) return "—";
+        const originalPrice = formatOriginal(hit);
+        const lowest = lowestPrice !== null && normalizedPrice(hit) === lowestPrice;
+        return (
+          <div>
+            <span className={cn("font-semibold", lowest ? "text-green-700" : "text-primary-600")}>{price}</span>
+            {originalPrice && <span className="ms-2 text-xs text-neutral-500">({originalPrice})</span>}
+            {lowest && <p className="text-xs font-medium text-green-700">{t("compare.lowestPrice")}</p>}
+          </div>
+        );
+      },
+    },
+    {
+      label: "compare.store",
+      compareValue: (hit) => hit.store || null,
+      render: (hit) => hit.store || "—",
+    },
+    {
+      label: "compare.countries",
+      compareValue: (hit) => (hit.countries?.length ? [...hit.countries].sort().join(",") : null),
+      render: (hit) =>
+        hit.countries?.length
+          ? hit.countries.map((code) => countryName(code, locale)).join(locale === "ar" ? "، " : ", ")
+          : "—",
+    },
+    {
+      label: "compare.score",
+      compareValue: (hit) => hit.score,
+      render: (hit) => (
+        <div>
+          <span className={cn("font-medium", hit === bestMatch && "text-green-700")}>
+            {formatNumber(hit.score, locale, { style: "percent", maximumFractionDigits: 1 })}
+          </span>
+          {hit === bestMatch && <p className="text-xs font-medium text-green-700">{t("results.bestMatch")}</p>}
+        </div>
+      ),
+    },
+    {
+      label: "compare.link",
+      compareValue: () => null,
+      render: (hit) =>
+        hit.product_url ? (
+          <a
+            href={hit.product_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center space-x-1 text-primary-600 hover:text-primary-700 font-medium"
+          >
+            <span>{t("results.viewProduct")}</span>
+            <ExternalLink className="w-3.5 h-3.5" />
+          </a>
+        ) : (
+          "—"
+        ),
+    },
+  ];
+
+  return (
+    <div className="overflow-x-auto bg-white rounded-lg border border-neutral-200">
+      <table className="w-full table-fixed text-sm">
+        <thead>
+          <tr>
+            <th className="w-40 p-3" />
+            {hits.map((hit) => (
+              <th key={hit.pinecone_id} className="p-3 align-top">
+                <div className="relative aspect-square bg-neutral-100 rounded-lg overflow-hidden flex items-center justify-center">
+                  {hit.image_url ? (
+                    <img src={hit.image_url} alt={hit.name_english || hit.pinecone_id} className="w-full h-full object-cover" />
+                  ) : (
+                    <Package className="w-12 h-12 text-neutral-400" />
+                  )}
+                  <button
+                    onClick={() => removeHit(hit.pinecone_id)}
+                    className="absolute top-2 end-2 p-1 bg-white/90 hover:bg-white rounded-full shadow-sm"
+                    title={t("compare.remove")}
+                  >
+                    <X className="w-4 h-4 text-neutral-600" />
+                  </button>
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const differs = rowDiffers(row, hits);
+            return (
+              <tr key={row.label} className="border-t border-neutral-100">
+                <th className="p-3 text-start align-top font-medium text-neutral-600">
+                  {t(row.label)}
+                  {differs && (
+                    <span className="block text-xs font-normal text-amber-700">{t("compare.differs")}</span>
+                  )}
+                </th>
+                {hits.map((hit) => (
+                  <td
+                    key={hit.pinecone_id}
+                    className={cn("p-3 align-top text-neutral-900 break-words", differs && "bg-amber-50")}
+                  >
+                    {row.render(hit)}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { ArrowUpDown, SlidersHorizontal } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { countryName, formatNumber } from "@/lib/i18n";
+import { useCurrency } from "./CurrencyProvider";
+import { useLocale } from "./LocaleProvider";
+import {
+  EMPTY_FILTERS,
+  FacetValue,
+  HitFacets,
+  HitFilters,
+  hasActiveFilters,
+  SortOrder,
+  SORT_ORDERS,
+} from "@/lib/hits";
+
+interface ResultFiltersProps {
+  facets: HitFacets;
+  filters: HitFilters;
+  onChange: (filters: HitFilters) => void;
+  className?: string;
+}
+
+/**
+ * Price, store, country and availability filters for a list of hits.
+ * Facet counts describe the current result set.
+ */
+export function ResultFilters({ facets, filters, onChange, className }: ResultFiltersProps) {
+  const { t, locale } = useLocale();
+  const update = (patch: Partial<HitFilters>) => onChange({ ...filters, ...patch });
+
+  return (
+    <div className={cn("space-y-5 text-sm", className)}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 font-semibold text-neutral-900">
+          <SlidersHorizontal className="w-4 h-4" />
+          <span>{t("filters.title")}</span>
+        </div>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onChange(EMPTY_FILTERS)}
+            className="text-xs font-medium text-primary-600 hover:text-primary-700"
+          >
+            {t("filters.clearAll")}
+          </button>
+        )}
+      </div>
+
+      {facets.priceRange && facets.priceRange.max > facets.priceRange.min && (
+        <PriceRangeFilter
+          range={facets.priceRange}
+          min={filters.priceMin}
+          max={filters.priceMax}
+          onChange={(priceMin, priceMax) => update({ priceMin, priceMax })}
+        />
+      )}
+
+      <MultiSelectFilter
+        label={t("filters.store")}
+        options={facets.stores}
+        selected={filters.stores}
+        onChange={(stores) => update({ stores })}
+      />
+
+      <MultiSelectFilter
+        label={t("filters.country")}
+        options={facets.countries}
+        selected={filters.countries}
+        onChange={(countries) => update({ countries })}
+        formatValue={(code) => countryName(code, locale)}
+      />
+
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="text-neutral-700">
+          {t("filters.hideInactive")}
+          {facets.inactiveCount > 0 && (
+            <span className="text-neutral-400"> ({formatNumber(facets.inactiveCount, locale)})</span>
+          )}
+        </span>
+        <input
+          type="checkbox"
+          checked={filters.hideInactive}
+          onChange={(e) => update({ hideInactive: e.target.checked })}
+          className="w-4 h-4 accent-primary-600"
+        />
+      </label>
+    </div>
+  );
+}
+
+export function SortSelect({
+  value,
+  onChange,
+  className,
+}: {
+  value: SortOrder;
+  onChange: (order: SortOrder) => void;
+  className?: string;
+}) {
+  const { t } = useLocale();
+
+  return (
+    <label className={cn("flex items-center space-x-2 text-sm text-neutral-600", className)}>
+      <ArrowUpDown className="w-4 h-4" />
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as SortOrder)}
+        className="px-2 py-1 border border-neutral-300 rounded-md text-sm text-neutral-700 bg-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+        aria-label={t("sort.label")}
+      >
+        {SORT_ORDERS.map((order) => (
+          <option key={order} value={order}>
+            {t(`sort.${order}`)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function PriceRangeFilter({
+  range,
+  min,
+  max,
+  onChange,
+}: {
+  range: { min: number; max: number };
+  min: number | null;
+  max: number | null;
+  onChange: (min: number | null, max: number | null) => void;
+}) {
+  const { formatBaseAmount } = useCurrency();
+  const { t } = useLocale();
+  const lower = Math.floor(range.min);
+  const upper = Math.ceil(range.max);
+  const currentMin = min ?? lower;
+  const currentMax = max ?? upper;
+
+  // A handle resting on the bound of the range means "no limit"
+  const setMin = (value: number) => {
+    const next = Math.min(value, currentMax);
+    onChange(next <= lower ? null : next, max);
+  };
+  const setMax = (value: number) => {
+    const next = Math.max(value, currentMin);
+    onChange(min, next >= upper ? null : next);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-neutral-700">{t("filters.price")}</span>
+        <span className="text-xs text-neutral-500">
+          {formatBaseAmount(currentMin)} – {formatBaseAmount(currentMax)}
+        </span>
+      </div>
+      <div className="space-y-1">
+        <input
+          type="range"
+          min={lower}
+          max={upper}
+          value={currentMin}
+          onChange={(e) => setMin(Number(e.target.value))}
+          aria-label={t("filters.minPrice")}
+          className="w-full accent-primary-600"
+        />
+        <input
+          type="range"
+          min={lower}
+          max={upper}
+          value={currentMax}
+          onChange={(e) => setMax(Number(e.target.value))}
+          aria-label={t("filters.maxPrice")}
+          className="w-full accent-primary-600"
+        />
+      </div>
+    </div>
+  );
+}
+
+function MultiSelectFilter({
+  label,
+  options,
+  selected,
+  onChange,
+  formatValue = (value) => value,
+}: {
+  label: string;
+  options: FacetValue[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  formatValue?: (value: string) => string;
+}) {
+  const { locale } = useLocale();
+  // Keep selected values visible even if the current results no longer contain them
+  const missing = selected
+    .filter((value) => !options.some((option) => option.value === value))
+    .map((value) => ({ value, count: 0 }));
+  const allOptions = [...options, ...missing];
+
+  if (allOptions.length === 0) return null;
+
+  const toggle = (value: string) => {
+    onChange(
+      selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value]
+    );
+  };
+
+  return (
+    <div>
+      <div className="font-medium text-neutral-700 mb-2">{label}</div>
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {allOptions.map((option) => (
+          <label
+            key={option.value}
+            className="flex items-center justify-between py-0.5 cursor-pointer text-neutral-700"
+          >
+            <span className="flex items-center space-x-2 min-w-0">
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={() => toggle(option.value)}
+                className="w-4 h-4 accent-primary-600"
+              />
+              <span className="truncate">{formatValue(option.value)}</span>
+            </span>
+            <span className="text-xs text-neutral-400 ms-2">{formatNumber(option.count, locale)}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
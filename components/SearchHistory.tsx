@@ -0,0 +1,209 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { History, ImageIcon, Loader2, RotateCcw, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { categoryLabel } from "@/lib/categories";
+import { localeTag } from "@/lib/i18n";
+import {
+  HistoryEntry,
+  HistorySearch,
+  clearHistory,
+  deleteHistoryEntry,
+  listHistory,
+} from "@/lib/searchHistory";
+import { useLocale } from "./LocaleProvider";
+
+interface SearchHistoryPanelProps {
+  /** Restore an upload with its detections */
+  onOpen: (entry: HistoryEntry) => void;
+  /** Restore an upload and run one of its searches again */
+  onRerun: (entry: HistoryEntry, search: HistorySearch) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * Past uploads from lib/searchHistory.ts, newest first
+ */
+export function SearchHistoryPanel({ onOpen, onRerun, onClose, className }: SearchHistoryPanelProps) {
+  const { t } = useLocale();
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [confirmingClear, setConfirmingClear] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listHistory().then((loaded) => {
+      if (!cancelled) setEntries(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    setEntries((current) => current?.filter((entry) => entry.id !== id) ?? null);
+    await deleteHistoryEntry(id);
+  };
+
+  const handleClear = async () => {
+    setEntries([]);
+    setConfirmingClear(false);
+    await clearHistory();
+  };
+
+  return (
+    <div
+      className={cn(
+        "w-96 max-h-[70vh] flex flex-col bg-white rounded-lg border border-neutral-200 shadow-lg",
+        className
+      )}
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-100">
+        <h3 className="flex items-center space-x-2 text-sm font-semibold text-neutral-900">
+          <History className="w-4 h-4" />
+          <span>{t("history.title")}</span>
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-neutral-100 rounded transition-colors"
+          title={t("history.close")}
+        >
+          <X className="w-4 h-4 text-neutral-600" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {entries === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-neutral-500">{t("history.empty")}</p>
+        ) : (
+          <ul className="divide-y divide-neutral-100">
+            {entries.map((entry) => (
+              <HistoryItem
+                key={entry.id}
+                entry={entry}
+                onOpen={() => onOpen(entry)}
+                onRerun={(search) => onRerun(entry, search)}
+                onDelete={() => handleDelete(entry.id)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {entries && entries.length > 0 && (
+        <div className="flex items-center justify-end space-x-2 px-4 py-2 border-t border-neutral-100">
+          {confirmingClear ? (
+            <>
+              <span className="me-auto text-xs text-neutral-600">{t("history.confirmClear")}</span>
+              <button
+                onClick={() => setConfirmingClear(false)}
+                className="px-2 py-1 text-xs font-medium text-neutral-700 hover:bg-neutral-100 rounded transition-colors"
+              >
+                {t("history.cancel")}
+              </button>
+              <button
+                onClick={handleClear}
+                className="px-2 py-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 rounded transition-colors"
+              >
+                {t("history.clear")}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setConfirmingClear(true)}
+              className="px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50 rounded transition-colors"
+            >
+              {t("history.clear")}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function HistoryItem({
+  entry,
+  onOpen,
+  onRerun,
+  onDelete,
+}: {
+  entry: HistoryEntry;
+  onOpen: () => void;
+  onRerun: (search: HistorySearch) => void;
+  onDelete: () => void;
+}) {
+  const { t, locale } = useLocale();
+  const uploadedAt = new Intl.DateTimeFormat(localeTag(locale), {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(entry.updatedAt);
+
+  return (
+    <li className="p-3">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onOpen}
+          className="w-14 h-14 rounded bg-neutral-100 flex-shrink-0 overflow-hidden flex items-center justify-center hover:ring-2 hover:ring-primary-500 transition"
+          title={t("history.reopen")}
+        >
+          {entry.thumbnail ? (
+            <img src={entry.thumbnail} alt={entry.fileName} className="w-full h-full object-cover" />
+          ) : (
+            <ImageIcon className="w-5 h-5 text-neutral-400" />
+          )}
+        </button>
+        <div className="flex-1 min-w-0">
+          <button
+            onClick={onOpen}
+            className="block max-w-full text-sm font-medium text-neutral-900 hover:text-primary-600 truncate"
+            title={t("history.reopen")}
+          >
+            {entry.fileName}
+          </button>
+          <p className="text-xs text-neutral-500">{uploadedAt}</p>
+          <p className="text-xs text-neutral-500">
+            {t("history.objectCount", { count: entry.detection.objects.length })}
+          </p>
+        </div>
+        <button
+          onClick={onDelete}
+          className="p-1.5 hover:bg-red-50 rounded transition-colors flex-shrink-0"
+          title={t("history.delete")}
+        >
+          <Trash2 className="w-4 h-4 text-red-600" />
+        </button>
+      </div>
+
+      {entry.searches.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {entry.searches.map((search) => (
+            <li
+              key={`${search.objectId ?? "region"}-${search.searchedAt}`}
+              className="flex items-center justify-between gap-2 ps-2 text-xs text-neutral-600"
+            >
+              <span className="truncate">
+                {search.category ? categoryLabel(search.category, locale) : t("search.anyCategory")}
+                {search.drawn && <span> {t("search.drawnRegion")}</span>}
+                <span className="text-neutral-400"> · {t("results.productCount", { count: search.hits.length })}</span>
+              </span>
+              <button
+                onClick={() => onRerun(search)}
+                className="flex items-center space-x-1 px-2 py-0.5 font-medium text-primary-600 hover:bg-primary-50 rounded transition-colors flex-shrink-0"
+                title={t("history.rerunHint")}
+              >
+                <RotateCcw className="w-3 h-3" />
+                <span>{t("history.rerun")}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
@@ -1,11 +1,67 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Upload, X, Loader2, AlertCircle, Search as SearchIcon, Package } from "lucide-react";
-import { detectAndSegmentObjects, searchProducts, ApiError, SegmentedObject, SearchHit } from "@/lib/api";
+import Link from "next/link";
+import { Upload, X, Loader2, AlertCircle, Search as SearchIcon, Package, RefreshCw, SquareDashed, ShoppingBag, ChevronDown, ChevronUp, SlidersHorizontal, Star, ExternalLink, History } from "lucide-react";
+import { detectAndSegmentObjects, searchProducts, isAbortError, ApiError, SegmentedObject, SearchHit, BBox } from "@/lib/api";
 import { cn } from "@/lib/utils";
+import { CATEGORIES, categoryLabel } from "@/lib/categories";
+import { hitName } from "@/lib/i18n";
+import { createThumbnail, cropImage, maskImage, readFileAsDataUrl, QueryImageMode, QUERY_IMAGE_MODES } from "@/lib/imageUtils";
+import { runWithConcurrency } from "@/lib/concurrency";
+import {
+  mergeHits,
+  computeFacets,
+  filterHits,
+  hasActiveFilters,
+  toSearchFilters,
+  EMPTY_FILTERS,
+  HitFilters,
+  sortHits,
+  SortOrder,
+  topScoredHit,
+  SEARCH_PAGE_SIZE,
+  MAX_TOP_K,
+  FILTER_DEBOUNCE_MS,
+} from "@/lib/hits";
+import { hashImage, getCachedDetection, putCachedDetection } from "@/lib/detectionCache";
+import { saveSearchSession, updateSearchSessionHits } from "@/lib/searchSessions";
+import { setMoodboardDragData } from "@/lib/moodboard";
+import { HistoryEntry, HistorySearch, recordHistorySearch, recordHistoryUpload } from "@/lib/searchHistory";
 import { ObjectDetectionView } from "./ObjectDetectionView";
+import { BoundingBoxSelector } from "./BoundingBoxSelector";
 import { SearchResults } from "./SearchResults";
+import { ResultFilters, SortSelect } from "./ResultFilters";
+import { ExportResultsMenu } from "./ExportResultsMenu";
+import { SearchHistoryPanel } from "./SearchHistory";
+import { useBackendStatus } from "./BackendStatusProvider";
+import { useCurrency } from "./CurrencyProvider";
+import { FavoriteButton, useFavorites } from "./FavoritesProvider";
+import { CompareToggle } from "./ComparisonProvider";
+import { useLocale } from "./LocaleProvider";
+
+const QUERY_MODE_STORAGE_KEY = "searchQueryMode";
+// Parallel searches when shopping the whole room
+const ROOM_SEARCH_CONCURRENCY = 3;
+
+// Results of "Shop the whole room" for one detected object
+interface RoomSearchGroup {
+  object: SegmentedObject;
+  status: "pending" | "loading" | "done" | "error";
+  hits: SearchHit[];
+  message: string | null;
+  /** Masked cut-out of the object, ties the group back to the image */
+  thumbnailUrl: string | null;
+}
+
+// Object or region a single search runs on
+interface SearchTarget {
+  bbox: BBox;
+  mask_base64?: string;
+  drawn: boolean;
+  /** Detected object, absent for drawn regions */
+  objectId?: number;
+}
 
 export function SearchInterface() {
   const [image, setImage] = useState<File | null>(null);
@@ -14,27 +70,91 @@ export function SearchInterface() {
   const [imageWidth, setImageWidth] = useState<number>(0);
   const [imageHeight, setImageHeight] = useState<number>(0);
   const [detectionLoading, setDetectionLoading] = useState(false);
+  const [detectionFromCache, setDetectionFromCache] = useState(false);
   const [searchLoading, setSearchLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchResults, setSearchResults] = useState<SearchHit[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  // Set when the current results come from a hand-drawn region
+  const [selectedRegion, setSelectedRegion] = useState<BBox | null>(null);
+  // "Draw region" mode, for objects the detector missed
+  const [drawMode, setDrawMode] = useState(false);
+  const [drawnBbox, setDrawnBbox] = useState<BBox | null>(null);
+  const [regionCategory, setRegionCategory] = useState("");
+  const [queryMode, setQueryMode] = useState<QueryImageMode>("crop");
+  const [roomGroups, setRoomGroups] = useState<RoomSearchGroup[] | null>(null);
+  // Paging state for the current result list
+  const [topK, setTopK] = useState(SEARCH_PAGE_SIZE);
+  const [hasMoreResults, setHasMoreResults] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [filters, setFilters] = useState<HitFilters>(EMPTY_FILTERS);
+  // Unfiltered hits for the current query, so facets do not shrink as filters apply
+  const [facetHits, setFacetHits] = useState<SearchHit[]>([]);
+  const [showFilters, setShowFilters] = useState(false);
+  const [filtering, setFiltering] = useState(false);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("similarity");
+  // Saved record of the current results, opened at /results/[id]
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  // When the current results were fetched, for exports
+  const [searchedAt, setSearchedAt] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+  const [highlightedObjectId, setHighlightedObjectId] = useState<number | null>(null);
   const [selectedProduct, setSelectedProduct] = useState<SearchHit | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { status: backendStatus } = useBackendStatus();
+  const uploadsDisabled = backendStatus === "offline";
+  const { t, locale } = useLocale();
+  const { refreshFavorites } = useFavorites();
+  // In-flight requests; replaced (and aborted) whenever a newer one starts
+  const detectionControllerRef = useRef<AbortController | null>(null);
+  const searchControllerRef = useRef<AbortController | null>(null);
+  // Query behind the current results, reused to fetch deeper pages
+  const lastQueryRef = useRef<{ file: File; category: string | null; bbox?: BBox } | null>(null);
+  const filterTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // History entry (image hash) of the current upload, see lib/searchHistory.ts
+  const historyIdRef = useRef<string | null>(null);
+
+  // Cancel anything still running when the component unmounts
+  useEffect(() => {
+    return () => {
+      detectionControllerRef.current?.abort();
+      searchControllerRef.current?.abort();
+      if (filterTimerRef.current) clearTimeout(filterTimerRef.current);
+    };
+  }, []);
+
+  // Saved products pick up price and availability changes from fresh results
+  useEffect(() => {
+    refreshFavorites(searchResults);
+  }, [searchResults, refreshFavorites]);
+
+  // Restore the query mode chosen in an earlier visit
+  useEffect(() => {
+    const stored = localStorage.getItem(QUERY_MODE_STORAGE_KEY);
+    if (QUERY_IMAGE_MODES.some((mode) => mode === stored)) {
+      setQueryMode(stored as QueryImageMode);
+    }
+  }, []);
+
+  const handleQueryModeChange = (mode: QueryImageMode) => {
+    setQueryMode(mode);
+    localStorage.setItem(QUERY_MODE_STORAGE_KEY, mode);
+  };
 
-  const categories = [
-    "chair", "2-seater-sofa", "l-shape-sofa", "sofa",
-    "bed", "bedspread", "pillow", "mattresses",
-    "service-table", "center-table", "side-table", "console",
-    "dressing-table", "comforter", "tv-table", "dining-table",
-    "storage-box", "carpet", "flower-pot-and-plant", "statue-and-antique",
-    "laundry-basket", "candle", "vase", "flower",
-    "wall-clock", "shelve", "decorative-hanger", "lighting",
-    "lampshade", "floor-stand", "wall-lighting", "outdoor-lighting",
-    "chandelier", "pendant-lighting", "coffee-maker", "cooking-appliance",
-    "food-processor", "cooking-pot", "serving-utensil-and-tray",
-    "cup", "plate", "chaise-lounge", "art-canvas", "office-table", "office-chair"
-  ];
+  const cancelSearch = () => {
+    searchControllerRef.current?.abort();
+    searchControllerRef.current = null;
+    if (filterTimerRef.current) {
+      clearTimeout(filterTimerRef.current);
+      filterTimerRef.current = null;
+    }
+  };
+
+  const cancelDetection = () => {
+    detectionControllerRef.current?.abort();
+    detectionControllerRef.current = null;
+  };
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -45,6 +165,7 @@ export function SearchInterface() {
 
   const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
+    if (uploadsDisabled) return;
     const file = e.dataTransfer.files?.[0];
     if (!file) return;
 
@@ -53,7 +174,8 @@ export function SearchInterface() {
 
   const processImageFile = async (file: File) => {
     // Import preprocessing utilities
-    const { preprocessImage, getImageDimensions, validateImageFile, validateImageDimensions } = await import("@/lib/imageUtils");
+    const { preprocessImage, getImageDimensions, validateImageFile, validateImageDimensions, MAX_UPLOAD_SIZE_BYTES } =
+      await import("@/lib/imageUtils");
 
     // Validate file type and size
     const validationError = validateImageFile(file);
@@ -84,22 +206,39 @@ export function SearchInterface() {
           setDetectionLoading(false);
         } catch (preprocessError) {
           setDetectionLoading(false);
-          setError(`Failed to resize image: ${preprocessError instanceof Error ? preprocessError.message : 'Unknown error'}`);
+          setError(
+            t("search.errorResize", {
+              message: preprocessError instanceof Error ? preprocessError.message : t("search.errorUnknown"),
+            })
+          );
           return;
         }
       }
       
       // Additional safety check: if file is still too large after processing, reject it
-      const maxSizeBytes = 10 * 1024 * 1024; // 10MB
-      if (processedFile.size > maxSizeBytes) {
-        setError(`Image is too large (${(processedFile.size / (1024 * 1024)).toFixed(1)}MB). Please use a smaller image.`);
+      if (processedFile.size > MAX_UPLOAD_SIZE_BYTES) {
+        setError(t("search.errorTooLarge", { size: (processedFile.size / (1024 * 1024)).toFixed(1) }));
         return;
       }
 
+      // A new image invalidates any detection or search from the previous one
+      cancelDetection();
+      cancelSearch();
+      setSearchLoading(false);
+
       setImage(processedFile);
       setError(null);
       setSearchResults([]);
+      setFacetHits([]);
+      setSessionId(null);
+      lastQueryRef.current = null;
+      historyIdRef.current = null;
+      setFilters(EMPTY_FILTERS);
       setSelectedCategory(null);
+      setSelectedRegion(null);
+      setRoomGroups(null);
+      setDrawMode(false);
+      setDrawnBbox(null);
 
       // Create preview
       const reader = new FileReader();
@@ -120,27 +259,56 @@ export function SearchInterface() {
       // Automatically run detection and segmentation
       await runDetectionAndSegmentation(processedFile);
     } catch (err) {
-      setError(`Failed to process image: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      setError(
+        t("search.errorProcess", { message: err instanceof Error ? err.message : t("search.errorUnknown") })
+      );
       setDetectionLoading(false);
     }
   };
 
-  const runDetectionAndSegmentation = async (imageFile: File) => {
+  const runDetectionAndSegmentation = async (
+    imageFile: File,
+    { bypassCache = false }: { bypassCache?: boolean } = {}
+  ) => {
+    cancelDetection();
+    const controller = new AbortController();
+    detectionControllerRef.current = controller;
+
     setDetectionLoading(true);
+    setDetectionFromCache(false);
     setError(null);
     setDetectedObjects([]);
 
     try {
-      const response = await detectAndSegmentObjects(imageFile);
+      // Reuse the result for an identical image unless a fresh detection was requested
+      const imageHash = await hashImage(imageFile).catch(() => null);
+      let response = imageHash && !bypassCache ? await getCachedDetection(imageHash) : null;
+      const fromCache = response !== null;
+
+      if (!response) {
+        response = await detectAndSegmentObjects(imageFile, { signal: controller.signal });
+        if (imageHash && !controller.signal.aborted) {
+          void putCachedDetection(imageHash, response);
+        }
+      }
+      if (controller.signal.aborted) return;
+
+      setDetectionFromCache(fromCache);
+      historyIdRef.current = imageHash;
+      if (imageHash) void recordHistoryUpload(imageHash, imageFile, response);
+
       setDetectedObjects(response.objects);
       setImageWidth(response.image_width);
       setImageHeight(response.image_height);
 
       if (response.objects.length === 0) {
-        setError("No objects detected in the image. Please try a different image.");
+        setError(t("search.errorNoObjects"));
       }
     } catch (err) {
-      let errorMessage = "Failed to detect objects";
+      // A newer upload or removal superseded this detection
+      if (controller.signal.aborted || isAbortError(err)) return;
+
+      let errorMessage = t("search.errorDetect");
 
       if (err instanceof ApiError) {
         errorMessage = err.message;
@@ -150,34 +318,105 @@ export function SearchInterface() {
 
       setError(errorMessage);
     } finally {
-      setDetectionLoading(false);
+      if (detectionControllerRef.current === controller) {
+        detectionControllerRef.current = null;
+        setDetectionLoading(false);
+      }
+    }
+  };
+
+  const handleRedetect = () => {
+    if (!image) return;
+    cancelSearch();
+    setSearchLoading(false);
+    setSearchResults([]);
+    setFacetHits([]);
+    setSessionId(null);
+    lastQueryRef.current = null;
+    setFilters(EMPTY_FILTERS);
+    setSelectedCategory(null);
+    setSelectedRegion(null);
+    setRoomGroups(null);
+    setDrawMode(false);
+    runDetectionAndSegmentation(image, { bypassCache: true });
+  };
+
+  /**
+   * Build the query for the current mode: a crop or mask cut-out of the
+   * selected object, or the full image (with the drawn region, if any).
+   */
+  const buildSearchQuery = async (
+    source: File,
+    target: SearchTarget
+  ): Promise<{ file: File; bbox?: BBox }> => {
+    if (queryMode === "masked" && target.mask_base64) {
+      return { file: await maskImage(source, target.bbox, target.mask_base64) };
+    }
+    if (queryMode === "crop" || queryMode === "masked") {
+      // Drawn regions have no mask, so masked mode falls back to a crop
+      return { file: await cropImage(source, target.bbox) };
     }
+    return { file: source, bbox: target.drawn ? target.bbox : undefined };
   };
 
-  const handleObjectClick = async (object: SegmentedObject) => {
+  const runSearch = async (
+    category: string | null,
+    target: SearchTarget,
+    // Passed explicitly when the image was set in the same event, e.g. from history
+    sourceImage: File | null = image
+  ) => {
+    // Only the latest selection may update the results panel
+    cancelSearch();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+
     setSearchLoading(true);
     setError(null);
-    setSelectedCategory(object.category);
+    setSelectedCategory(category);
+    setSelectedRegion(target.drawn ? target.bbox : null);
+    setRoomGroups(null);
+    setLoadingMore(false);
+    setHasMoreResults(false);
+    setTopK(SEARCH_PAGE_SIZE);
+    setFilters(EMPTY_FILTERS);
+    setFiltering(false);
+    setSessionId(null);
+    lastQueryRef.current = null;
 
     try {
-      if (!image) {
-        setError("No image available");
+      if (!sourceImage) {
+        setError(t("search.errorNoImage"));
         return;
       }
 
-      // Search using the detected category (bbox handled automatically by backend)
-      const response = await searchProducts(image, {
-        category: object.category,
-        top_k: 20,
+      const query = await buildSearchQuery(sourceImage, target);
+      if (controller.signal.aborted) return;
+
+      const response = await searchProducts(query.file, {
+        category: category ?? undefined,
+        bbox: query.bbox,
+        top_k: SEARCH_PAGE_SIZE,
+        signal: controller.signal,
       });
+      if (controller.signal.aborted) return;
 
+      const currentQuery = { file: query.file, category, bbox: query.bbox };
+      lastQueryRef.current = currentQuery;
       setSearchResults(response.hits);
+      setFacetHits(response.hits);
+      setSearchedAt(Date.now());
+      saveSession(currentQuery, target, response.hits, response.message ?? null, historyIdRef.current);
+      // A full page suggests there may be more
+      setHasMoreResults(response.hits.length >= SEARCH_PAGE_SIZE);
 
       if (response.hits.length === 0 && response.message) {
         setError(response.message);
       }
     } catch (err) {
-      let errorMessage = "Failed to search products";
+      // A newer selection superseded this search
+      if (controller.signal.aborted || isAbortError(err)) return;
+
+      let errorMessage = t("search.errorSearch");
 
       if (err instanceof ApiError) {
         errorMessage = err.message;
@@ -187,17 +426,332 @@ export function SearchInterface() {
 
       setError(errorMessage);
       setSearchResults([]);
+      setFacetHits([]);
     } finally {
-      setSearchLoading(false);
+      if (searchControllerRef.current === controller) {
+        searchControllerRef.current = null;
+        setSearchLoading(false);
+      }
+    }
+  };
+
+  /**
+   * Save the results in the background and add them to the upload's
+   * history; the link only appears for the query that is still current
+   * once the record is written.
+   */
+  const saveSession = async (
+    query: NonNullable<typeof lastQueryRef.current>,
+    target: SearchTarget,
+    hits: SearchHit[],
+    message: string | null,
+    historyId: string | null
+  ) => {
+    let thumbnail: string | null = null;
+    try {
+      thumbnail = await createThumbnail(query.file);
+    } catch {
+      // A session without a preview is still useful
+    }
+    const id = await saveSearchSession({
+      query: { image: query.file, category: query.category ?? undefined, bbox: query.bbox },
+      thumbnail,
+      category: query.category,
+      selection: { bbox: target.bbox, drawn: target.drawn },
+      hits,
+      message,
+      topK: SEARCH_PAGE_SIZE,
+    });
+    if (historyId) {
+      void recordHistorySearch(historyId, {
+        objectId: target.objectId ?? null,
+        category: query.category,
+        bbox: target.bbox,
+        drawn: target.drawn,
+        hits,
+        sessionId: id,
+        searchedAt: Date.now(),
+      });
+    }
+    if (id && lastQueryRef.current === query) {
+      setSessionId(id);
+    }
+  };
+
+  /**
+   * Search every detected object at once, a few at a time, collecting the
+   * results per object.
+   */
+  const handleShopRoom = async () => {
+    if (!image || detectedObjects.length === 0) return;
+
+    cancelSearch();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+    const sourceImage = image;
+    const objects = detectedObjects;
+
+    setSearchLoading(false);
+    setError(null);
+    setSearchResults([]);
+    setFacetHits([]);
+    setSessionId(null);
+    lastQueryRef.current = null;
+    setFilters(EMPTY_FILTERS);
+    setSelectedCategory(null);
+    setSelectedRegion(null);
+    setDrawMode(false);
+    setRoomGroups(
+      objects.map((object) => ({
+        object,
+        status: "pending",
+        hits: [],
+        message: null,
+        thumbnailUrl: null,
+      }))
+    );
+
+    const updateGroup = (objectId: number, patch: Partial<RoomSearchGroup>) => {
+      if (controller.signal.aborted) return;
+      setRoomGroups((groups) =>
+        groups?.map((group) => (group.object.object_id === objectId ? { ...group, ...patch } : group)) ?? null
+      );
+    };
+
+    try {
+      await runWithConcurrency(
+        objects,
+        ROOM_SEARCH_CONCURRENCY,
+        async (object) => {
+          updateGroup(object.object_id, { status: "loading" });
+          try {
+            const query = await buildSearchQuery(sourceImage, {
+              bbox: object.bbox,
+              mask_base64: object.mask_base64,
+              drawn: false,
+            });
+            // Best-effort: reuse the query's cut-out, or crop when the full image is searched
+            (query.file !== sourceImage ? Promise.resolve(query.file) : cropImage(sourceImage, object.bbox))
+              .then((file) => createThumbnail(file))
+              .then((thumbnailUrl) => updateGroup(object.object_id, { thumbnailUrl }))
+              .catch(() => {});
+
+            const response = await searchProducts(query.file, {
+              category: object.category,
+              bbox: query.bbox,
+              top_k: SEARCH_PAGE_SIZE,
+              signal: controller.signal,
+            });
+            updateGroup(object.object_id, {
+              status: "done",
+              hits: response.hits,
+              message: response.hits.length === 0 ? response.message ?? t("results.none") : null,
+            });
+          } catch (err) {
+            if (isAbortError(err)) return;
+            updateGroup(object.object_id, {
+              status: "error",
+              message: err instanceof Error ? err.message : t("search.errorSearch"),
+            });
+          }
+        },
+        controller.signal
+      );
+    } finally {
+      if (searchControllerRef.current === controller) {
+        searchControllerRef.current = null;
+      }
+    }
+  };
+
+  /**
+   * Fetch a deeper page by re-running the last query with a larger top_k,
+   * appending only hits that are not already shown.
+   */
+  const handleLoadMore = async () => {
+    const lastQuery = lastQueryRef.current;
+    if (!lastQuery || loadingMore) return;
+
+    // A pending filter refetch would otherwise land after this page and replace it
+    cancelSearch();
+    setFiltering(false);
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+    const nextTopK = Math.min(topK + SEARCH_PAGE_SIZE, MAX_TOP_K);
+    setLoadingMore(true);
+
+    try {
+      const response = await searchProducts(lastQuery.file, {
+        category: lastQuery.category ?? undefined,
+        bbox: lastQuery.bbox,
+        top_k: nextTopK,
+        filters: toSearchFilters(filters),
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+
+      setTopK(nextTopK);
+      setSearchResults((current) => mergeHits(current, response.hits));
+      if (!hasActiveFilters(filters)) {
+        setFacetHits((current) => mergeHits(current, response.hits));
+        if (sessionId) updateSearchSessionHits(sessionId, mergeHits(facetHits, response.hits), nextTopK);
+      }
+      setHasMoreResults(response.hits.length >= nextTopK && nextTopK < MAX_TOP_K);
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : t("search.errorLoadMore"));
+    } finally {
+      if (searchControllerRef.current === controller) {
+        searchControllerRef.current = null;
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  /**
+   * Re-run the last query with the filters applied by the backend, so the
+   * whole page is spent on matching products. Hits already shown are
+   * filtered locally in the meantime.
+   */
+  const refetchWithFilters = async (nextFilters: HitFilters) => {
+    const lastQuery = lastQueryRef.current;
+    if (!lastQuery) return;
+
+    cancelSearch();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+    setFiltering(true);
+    setLoadingMore(false);
+
+    try {
+      const response = await searchProducts(lastQuery.file, {
+        category: lastQuery.category ?? undefined,
+        bbox: lastQuery.bbox,
+        top_k: SEARCH_PAGE_SIZE,
+        filters: toSearchFilters(nextFilters),
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+
+      setTopK(SEARCH_PAGE_SIZE);
+      setSearchResults(response.hits);
+      setSearchedAt(Date.now());
+      setHasMoreResults(response.hits.length >= SEARCH_PAGE_SIZE);
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : t("search.errorFilters"));
+    } finally {
+      if (searchControllerRef.current === controller) {
+        searchControllerRef.current = null;
+        setFiltering(false);
+      }
     }
   };
 
+  const handleFiltersChange = (nextFilters: HitFilters) => {
+    setFilters(nextFilters);
+    if (filterTimerRef.current) clearTimeout(filterTimerRef.current);
+    filterTimerRef.current = setTimeout(() => {
+      filterTimerRef.current = null;
+      refetchWithFilters(nextFilters);
+    }, FILTER_DEBOUNCE_MS);
+  };
+
+  const handleObjectClick = (object: SegmentedObject) => {
+    runSearch(object.category, {
+      bbox: object.bbox,
+      mask_base64: object.mask_base64,
+      drawn: false,
+      objectId: object.object_id,
+    });
+  };
+
+  const handleRegionSearch = () => {
+    if (!drawnBbox) return;
+    runSearch(regionCategory || null, { bbox: drawnBbox, drawn: true });
+  };
+
+  const handleToggleDrawMode = () => {
+    setDrawMode((enabled) => !enabled);
+    setDrawnBbox(null);
+  };
+
+  /**
+   * Bring back a past upload with its detections, without calling the
+   * backend again.
+   */
+  const restoreHistoryEntry = async (entry: HistoryEntry): Promise<File> => {
+    const file = new File([entry.image], entry.fileName, { type: entry.image.type });
+    cancelDetection();
+    cancelSearch();
+    setShowHistory(false);
+    setDetectionLoading(false);
+    setDetectionFromCache(false);
+    setSearchLoading(false);
+    setError(null);
+    setSearchResults([]);
+    setFacetHits([]);
+    setSessionId(null);
+    lastQueryRef.current = null;
+    setFilters(EMPTY_FILTERS);
+    setSelectedCategory(null);
+    setSelectedRegion(null);
+    setRoomGroups(null);
+    setHighlightedObjectId(null);
+    setDrawMode(false);
+    setDrawnBbox(null);
+
+    historyIdRef.current = entry.id;
+    setImage(file);
+    setDetectedObjects(entry.detection.objects);
+    setImageWidth(entry.detection.image_width);
+    setImageHeight(entry.detection.image_height);
+    setPreview(await readFileAsDataUrl(file));
+    return file;
+  };
+
+  const handleHistoryOpen = (entry: HistoryEntry) => {
+    void restoreHistoryEntry(entry);
+  };
+
+  const handleHistoryRerun = async (entry: HistoryEntry, search: HistorySearch) => {
+    const file = await restoreHistoryEntry(entry);
+    // Masked mode needs the object's mask; without it the search falls back to a crop
+    const object = entry.detection.objects.find((candidate) => candidate.object_id === search.objectId);
+    runSearch(
+      search.category,
+      {
+        bbox: search.bbox,
+        mask_base64: object?.mask_base64,
+        drawn: search.drawn,
+        objectId: search.objectId ?? undefined,
+      },
+      file
+    );
+  };
+
   const handleRemoveImage = () => {
+    cancelDetection();
+    cancelSearch();
+    setDetectionLoading(false);
+    setDetectionFromCache(false);
+    setSearchLoading(false);
     setImage(null);
     setPreview(null);
     setDetectedObjects([]);
     setSearchResults([]);
+    setFacetHits([]);
+    setSessionId(null);
+    lastQueryRef.current = null;
+    historyIdRef.current = null;
+    setFilters(EMPTY_FILTERS);
     setSelectedCategory(null);
+    setSelectedRegion(null);
+    setRoomGroups(null);
+    setHighlightedObjectId(null);
+    setDrawMode(false);
+    setDrawnBbox(null);
+    setRegionCategory("");
     setImageWidth(0);
     setImageHeight(0);
     setError(null);
@@ -210,81 +764,208 @@ export function SearchInterface() {
     e.preventDefault();
   };
 
+  const visibleResults = sortHits(filterHits(searchResults, filters), sortOrder);
+  const bestMatch = topScoredHit(searchResults);
+
   return (
     <div className="w-full h-full flex flex-col bg-white">
       {/* Header */}
-      <div className="flex-shrink-0 px-6 py-4 border-b border-neutral-200">
+      <div className="relative flex-shrink-0 px-6 py-4 border-b border-neutral-200">
         <div className="flex items-center justify-between">
           <div>
-            <h2 className="text-xl font-bold text-neutral-900">Visual Search</h2>
+            <h2 className="text-xl font-bold text-neutral-900">{t("search.title")}</h2>
             {preview && (
               <div className="text-sm text-neutral-600 mt-1">
                 {detectedObjects.length > 0 ? (
                   <span>
-                    Detected {detectedObjects.length} object{detectedObjects.length !== 1 ? "s" : ""}.
-                    Click on any object to search for similar products.
+                    {t("search.detected", { count: detectedObjects.length })}{" "}
+                    {t("search.clickHint")}
+                    {detectionFromCache && (
+                      <span className="ms-1 text-neutral-500">{t("search.fromCache")}</span>
+                    )}
                   </span>
                 ) : detectionLoading ? (
-                  <span>Processing image...</span>
+                  <span>{t("search.processing")}</span>
                 ) : null}
               </div>
             )}
           </div>
-          {preview && (
+          <div className="flex items-center space-x-1">
+            {preview && (
+              <>
+                <select
+                  value={queryMode}
+                  onChange={(e) => handleQueryModeChange(e.target.value as QueryImageMode)}
+                  className="me-2 px-3 py-2 border border-neutral-300 rounded-lg text-sm text-neutral-700 focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                  title={t("search.queryModeHint")}
+                >
+                  {QUERY_IMAGE_MODES.map((mode) => (
+                    <option key={mode} value={mode}>
+                      {t(`queryMode.${mode}`)}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleShopRoom}
+                  disabled={detectionLoading || detectedObjects.length === 0}
+                  className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={t("search.shopRoomHint")}
+                >
+                  <ShoppingBag className="w-4 h-4" />
+                  <span>{t("search.shopRoom")}</span>
+                </button>
+                <button
+                  onClick={handleToggleDrawMode}
+                  disabled={detectionLoading}
+                  className={cn(
+                    "flex items-center space-x-2 px-3 py-2 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
+                    drawMode
+                      ? "bg-primary-50 text-primary-700"
+                      : "text-neutral-700 hover:bg-neutral-100"
+                  )}
+                  title={t("search.drawRegionHint")}
+                >
+                  <SquareDashed className="w-4 h-4" />
+                  <span>{drawMode ? t("search.exitDrawMode") : t("search.drawRegion")}</span>
+                </button>
+                <button
+                  onClick={handleRedetect}
+                  disabled={detectionLoading || uploadsDisabled}
+                  className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={t("search.redetectHint")}
+                >
+                  <RefreshCw className={cn("w-4 h-4", detectionLoading && "animate-spin")} />
+                  <span>{t("search.redetect")}</span>
+                </button>
+                <button
+                  onClick={handleRemoveImage}
+                  className="p-2 hover:bg-neutral-100 rounded-lg transition-colors"
+                  title={t("search.removeImage")}
+                >
+                  <X className="w-5 h-5 text-neutral-600" />
+                </button>
+              </>
+            )}
             <button
-              onClick={handleRemoveImage}
-              className="p-2 hover:bg-neutral-100 rounded-lg transition-colors"
-              title="Remove image"
+              onClick={() => setShowHistory((open) => !open)}
+              className={cn(
+                "flex items-center space-x-2 px-3 py-2 text-sm font-medium rounded-lg transition-colors",
+                showHistory ? "bg-primary-50 text-primary-700" : "text-neutral-700 hover:bg-neutral-100"
+              )}
+              title={t("history.openHint")}
             >
-              <X className="w-5 h-5 text-neutral-600" />
+              <History className="w-4 h-4" />
+              <span>{t("history.open")}</span>
             </button>
-          )}
+          </div>
         </div>
+        {showHistory && (
+          <SearchHistoryPanel
+            onOpen={handleHistoryOpen}
+            onRerun={handleHistoryRerun}
+            onClose={() => setShowHistory(false)}
+            className="absolute end-6 top-full mt-2 z-30"
+          />
+        )}
       </div>
 
       {/* Main Content Area - 70/30 Split - Always Visible */}
       <div className="flex-1 flex overflow-hidden">
         {/* Left Side: Upload Area or Image with Detected Objects - 70% */}
-        <div className="w-[70%] flex flex-col border-r border-neutral-200 overflow-hidden">
+        <div className="w-[70%] flex flex-col border-e border-neutral-200 overflow-hidden">
           {!preview ? (
             // Upload Area
             <div className="flex-1 flex items-center justify-center p-6">
               <div
-                onClick={() => fileInputRef.current?.click()}
+                onClick={() => !uploadsDisabled && fileInputRef.current?.click()}
                 onDrop={handleDrop}
                 onDragOver={handleDragOver}
-                className="relative w-full max-w-2xl border-2 border-dashed border-neutral-300 rounded-lg p-16 text-center cursor-pointer hover:border-primary-400 hover:bg-primary-50/50 transition-colors"
+                aria-disabled={uploadsDisabled}
+                className={cn(
+                  "relative w-full max-w-2xl border-2 border-dashed border-neutral-300 rounded-lg p-16 text-center transition-colors",
+                  uploadsDisabled
+                    ? "cursor-not-allowed opacity-60 bg-neutral-50"
+                    : "cursor-pointer hover:border-primary-400 hover:bg-primary-50/50"
+                )}
               >
                 <input
                   ref={fileInputRef}
                   type="file"
                   accept="image/*"
                   onChange={handleFileSelect}
+                  disabled={uploadsDisabled}
                   className="hidden"
                 />
                 <Upload className="w-16 h-16 text-neutral-400 mx-auto mb-6" />
-                <p className="text-lg text-neutral-600 font-medium mb-2">
-                  Click to upload or drag and drop
-                </p>
-                <p className="text-sm text-neutral-500">
-                  PNG, JPG, WEBP up to 15MB (minimum 400×400px recommended)
-                </p>
+                {uploadsDisabled ? (
+                  <>
+                    <p className="text-lg text-neutral-600 font-medium mb-2">
+                      {t("upload.unavailable")}
+                    </p>
+                    <p className="text-sm text-neutral-500">
+                      {t("upload.offlineDetail")}
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-lg text-neutral-600 font-medium mb-2">
+                      {t("upload.prompt")}
+                    </p>
+                    <p className="text-sm text-neutral-500">
+                      {t("upload.hint")}
+                    </p>
+                  </>
+                )}
               </div>
             </div>
           ) : (
             // Image View
             <>
               <div className="flex-1 p-6 overflow-auto">
-                <div className="relative h-full flex items-center justify-center">
-                  <ObjectDetectionView
-                    imageUrl={preview}
-                    objects={detectedObjects}
-                    imageWidth={imageWidth}
-                    imageHeight={imageHeight}
-                    onObjectClick={handleObjectClick}
-                    loading={detectionLoading}
-                  />
-                </div>
+                {drawMode ? (
+                  <div className="max-w-3xl mx-auto space-y-4">
+                    <BoundingBoxSelector imageUrl={preview} onBboxChange={setDrawnBbox} />
+                    <div className="flex items-center gap-3">
+                      <select
+                        value={regionCategory}
+                        onChange={(e) => setRegionCategory(e.target.value)}
+                        className="flex-1 px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none text-sm"
+                      >
+                        <option value="">{t("search.anyCategory")}</option>
+                        {CATEGORIES.map((cat) => (
+                          <option key={cat} value={cat}>
+                            {categoryLabel(cat, locale)}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleRegionSearch}
+                        disabled={!drawnBbox || searchLoading}
+                        className={cn(
+                          "flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-semibold text-white transition-colors",
+                          !drawnBbox || searchLoading
+                            ? "bg-neutral-300 cursor-not-allowed"
+                            : "bg-primary-600 hover:bg-primary-700"
+                        )}
+                      >
+                        <SearchIcon className="w-4 h-4" />
+                        <span>{t("search.searchRegion")}</span>
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="relative h-full flex items-center justify-center">
+                    <ObjectDetectionView
+                      imageUrl={preview}
+                      objects={detectedObjects}
+                      imageWidth={imageWidth}
+                      imageHeight={imageHeight}
+                      onObjectClick={handleObjectClick}
+                      loading={detectionLoading}
+                      highlightedObjectId={highlightedObjectId}
+                    />
+                  </div>
+                )}
               </div>
 
               {/* Error Message */}
@@ -307,44 +988,153 @@ export function SearchInterface() {
         {/* Right Side: Search Results - 30% - Always Visible */}
         <div className="w-[30%] flex flex-col overflow-hidden bg-neutral-50">
           <div className="flex-shrink-0 px-6 py-4 border-b border-neutral-200 bg-white">
-            {selectedCategory ? (
+            {roomGroups ? (
               <div>
                 <h3 className="text-lg font-bold text-neutral-900 mb-1">
-                  Search Results
+                  {t("search.wholeRoom")}
                 </h3>
                 <p className="text-sm text-neutral-600">
-                  Showing results for: <span className="font-medium capitalize">{selectedCategory}</span>
+                  {t("search.objectsSearched", {
+                    done: roomGroups.filter((group) => group.status === "done" || group.status === "error").length,
+                    total: roomGroups.length,
+                  })}
                 </p>
               </div>
+            ) : selectedCategory || selectedRegion ? (
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="text-lg font-bold text-neutral-900">
+                    {t("results.title")}
+                  </h3>
+                  {facetHits.length > 0 && (
+                    <button
+                      onClick={() => setShowFilters((show) => !show)}
+                      className={cn(
+                        "flex items-center space-x-1 px-2 py-1 text-xs font-medium rounded-md border transition-colors",
+                        showFilters || hasActiveFilters(filters)
+                          ? "border-primary-300 bg-primary-50 text-primary-700"
+                          : "border-neutral-200 text-neutral-600 hover:bg-neutral-50"
+                      )}
+                    >
+                      {filtering ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <SlidersHorizontal className="w-3 h-3" />
+                      )}
+                      <span>{t("filters.title")}</span>
+                    </button>
+                  )}
+                </div>
+                <p className="text-sm text-neutral-600">
+                  {t("search.showingFor")}{" "}
+                  <span className="font-medium">
+                    {selectedCategory ? categoryLabel(selectedCategory, locale) : t("search.anyCategory")}
+                  </span>
+                  {selectedRegion && <span> {t("search.drawnRegion")}</span>}
+                </p>
+                {sessionId && (
+                  <Link
+                    href={`/results/${sessionId}`}
+                    target="_blank"
+                    className="inline-flex items-center space-x-1 mt-1 text-xs font-medium text-primary-600 hover:text-primary-700"
+                    title={t("search.openResultsHint")}
+                  >
+                    <ExternalLink className="w-3.5 h-3.5" />
+                    <span>{t("search.openResults")}</span>
+                  </Link>
+                )}
+                {searchResults.length > 0 && (
+                  <div className="flex items-center justify-between gap-2 mt-3">
+                    {searchResults.length > 1 ? (
+                      <SortSelect value={sortOrder} onChange={setSortOrder} />
+                    ) : (
+                      <span />
+                    )}
+                    <ExportResultsMenu
+                      hits={visibleResults}
+                      context={{ category: selectedCategory, topK, searchedAt }}
+                    />
+                  </div>
+                )}
+                {showFilters && facetHits.length > 0 && (
+                  <ResultFilters
+                    facets={computeFacets(facetHits)}
+                    filters={filters}
+                    onChange={handleFiltersChange}
+                    className="mt-4 pt-4 border-t border-neutral-100"
+                  />
+                )}
+              </div>
             ) : (
               <div>
                 <h3 className="text-lg font-bold text-neutral-900 mb-1">
-                  Product Recommendations
+                  {t("search.recommendations")}
                 </h3>
               </div>
             )}
           </div>
 
           <div className="flex-1 overflow-y-auto">
-            {searchLoading ? (
+            {roomGroups ? (
+              <div className="p-4 space-y-4">
+                {roomGroups.map((group) => (
+                  <RoomResultGroup
+                    key={group.object.object_id}
+                    group={group}
+                    onHighlight={setHighlightedObjectId}
+                    onProductClick={(hit) => {
+                      setSelectedProduct(hit);
+                      setIsModalOpen(true);
+                    }}
+                  />
+                ))}
+              </div>
+            ) : searchLoading ? (
               <div className="flex items-center justify-center h-full">
                 <div className="text-center">
                   <Loader2 className="w-12 h-12 animate-spin text-primary-600 mx-auto mb-4" />
-                  <p className="text-neutral-600">Searching for products...</p>
+                  <p className="text-neutral-600">{t("search.searching")}</p>
                 </div>
               </div>
-            ) : searchResults.length > 0 ? (
+            ) : visibleResults.length > 0 ? (
               <div className="p-4 space-y-3">
-                {searchResults.map((hit, index) => (
+                {visibleResults.map((hit, index) => (
                   <ProductCard
                     key={`${hit.pinecone_id}-${index}`}
                     hit={hit}
+                    isBestMatch={hit === bestMatch}
                     onImageClick={() => {
                       setSelectedProduct(hit);
                       setIsModalOpen(true);
                     }}
                   />
                 ))}
+                {hasMoreResults && (
+                  <button
+                    onClick={handleLoadMore}
+                    disabled={loadingMore || filtering}
+                    className="w-full flex items-center justify-center space-x-2 py-2 text-sm font-medium text-primary-600 border border-primary-200 rounded-lg hover:bg-primary-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                    <span>{loadingMore ? t("results.loadingMore") : t("results.loadMore")}</span>
+                  </button>
+                )}
+              </div>
+            ) : hasActiveFilters(filters) ? (
+              <div className="flex items-center justify-center h-full px-6">
+                <div className="text-center">
+                  <p className="text-neutral-600 font-medium mb-2">
+                    {filtering ? t("filters.applying") : t("filters.noMatch")}
+                  </p>
+                  {!filtering && (
+                    <button
+                      onClick={() => handleFiltersChange(EMPTY_FILTERS)}
+                      className="text-sm text-primary-600 hover:text-primary-700 underline font-medium"
+                    >
+                      {t("filters.clear")}
+                    </button>
+                  )}
+                </div>
               </div>
             ) : (
               <div className="flex items-center justify-center h-full px-6">
@@ -353,19 +1143,19 @@ export function SearchInterface() {
                   {!preview ? (
                     <>
                       <p className="text-lg text-neutral-600 font-medium mb-2">
-                        Upload an Image
+                        {t("search.uploadTitle")}
                       </p>
                       <p className="text-sm text-neutral-500">
-                        You need to upload an image and then click on any product for recommendation
+                        {t("search.uploadHint")}
                       </p>
                     </>
                   ) : (
                     <>
                       <p className="text-lg text-neutral-600 font-medium mb-2">
-                        No products selected
+                        {t("search.noSelection")}
                       </p>
                       <p className="text-sm text-neutral-500">
-                        On hover you can see the detected segmented part of an object and click on that the recommendation product visible here
+                        {t("search.noSelectionHint")}
                       </p>
                     </>
                   )}
@@ -401,7 +1191,11 @@ function ProductImageModal({
   const [imageError, setImageError] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
   const imageUrl = product.image_url || null;
-  const productName = product.name_english || product.name_arabic || product.pinecone_id;
+  const { t, locale } = useLocale();
+  const productName = hitName(product, locale);
+  const { formatHit, formatOriginal } = useCurrency();
+  const price = formatHit(product);
+  const originalPrice = formatOriginal(product);
 
   // Close on Escape key
   useEffect(() => {
@@ -428,21 +1222,27 @@ function ProductImageModal({
           <div>
             <h3 className="text-lg font-bold text-neutral-900">{productName}</h3>
             {product.category && (
-              <p className="text-sm text-neutral-600 capitalize">{product.category.replace(/-/g, ' ')}</p>
+              <p className="text-sm text-neutral-600">{categoryLabel(product.category, locale)}</p>
             )}
-            {product.price_amount && (
+            {price && (
               <p className="text-sm font-semibold text-primary-600 mt-1">
-                {product.price_amount} {product.price_unit || 'SAR'}
+                {price}
+                {originalPrice && (
+                  <span className="ms-2 text-xs font-normal text-neutral-500">({originalPrice})</span>
+                )}
               </p>
             )}
           </div>
-          <button
-            onClick={onClose}
-            className="p-2 hover:bg-neutral-100 rounded-lg transition-colors"
-            title="Close"
-          >
-            <X className="w-6 h-6 text-neutral-600" />
-          </button>
+          <div className="flex items-center space-x-2">
+            <FavoriteButton hit={product} className="p-2 shadow-none hover:bg-neutral-100" />
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-neutral-100 rounded-lg transition-colors"
+              title={t("modal.close")}
+            >
+              <X className="w-6 h-6 text-neutral-600" />
+            </button>
+          </div>
         </div>
 
         {/* Image */}
@@ -453,7 +1253,7 @@ function ProductImageModal({
                 <div className="absolute inset-0 flex items-center justify-center bg-gradient-to-br from-neutral-100 to-neutral-200">
                   <div className="text-center">
                     <Loader2 className="w-12 h-12 animate-spin text-primary-600 mx-auto mb-4" />
-                    <p className="text-sm text-neutral-600">Loading image...</p>
+                    <p className="text-sm text-neutral-600">{t("modal.loadingImage")}</p>
                   </div>
                 </div>
               )}
@@ -471,7 +1271,7 @@ function ProductImageModal({
           ) : (
             <div className="flex flex-col items-center justify-center p-12">
               <Package className="w-24 h-24 text-neutral-400 mb-4" />
-              <p className="text-neutral-600">Image not available</p>
+              <p className="text-neutral-600">{t("modal.imageUnavailable")}</p>
             </div>
           )}
         </div>
@@ -482,7 +1282,7 @@ function ProductImageModal({
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 rounded-full bg-primary-500"></div>
               <span className="text-sm font-medium text-neutral-700">
-                {Math.round(product.score * 100)}% match
+                {t("modal.match", { percent: Math.round(product.score * 100) })}
               </span>
             </div>
           </div>
@@ -492,15 +1292,112 @@ function ProductImageModal({
   );
 }
 
+// Collapsed groups show only their top hits
+const ROOM_GROUP_PREVIEW_COUNT = 3;
+
+// One object's results in the "Shop the whole room" view
+function RoomResultGroup({
+  group,
+  onHighlight,
+  onProductClick,
+}: {
+  group: RoomSearchGroup;
+  onHighlight: (objectId: number | null) => void;
+  onProductClick: (hit: SearchHit) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const { t, locale } = useLocale();
+  const { object, status, hits, message, thumbnailUrl } = group;
+  const visibleHits = expanded ? hits : hits.slice(0, ROOM_GROUP_PREVIEW_COUNT);
+  const label = object.category === "unknown" ? t("room.object") : categoryLabel(object.category, locale);
+
+  return (
+    <div
+      className="bg-white rounded-lg border border-neutral-200 overflow-hidden"
+      onMouseEnter={() => onHighlight(object.object_id)}
+      onMouseLeave={() => onHighlight(null)}
+    >
+      <div className="flex items-center gap-3 p-3 border-b border-neutral-100">
+        <div className="w-12 h-12 rounded bg-neutral-100 flex-shrink-0 overflow-hidden flex items-center justify-center">
+          {thumbnailUrl ? (
+            <img src={thumbnailUrl} alt={label} className="w-full h-full object-contain" />
+          ) : (
+            <Package className="w-5 h-5 text-neutral-400" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <h4 className="font-semibold text-sm text-neutral-900 truncate">{label}</h4>
+          <p className="text-xs text-neutral-500">
+            {status === "done"
+              ? t("results.productCount", { count: hits.length })
+              : status === "error"
+                ? t("room.failed")
+                : status === "loading"
+                  ? t("room.searching")
+                  : t("room.waiting")}
+          </p>
+        </div>
+        {(status === "pending" || status === "loading") && (
+          <Loader2 className="w-4 h-4 animate-spin text-primary-600 flex-shrink-0" />
+        )}
+      </div>
+
+      {message && (
+        <p className={cn("px-3 py-2 text-xs", status === "error" ? "text-red-700 bg-red-50" : "text-neutral-500")}>
+          {message}
+        </p>
+      )}
+
+      {visibleHits.length > 0 && (
+        <div className="p-3 space-y-2">
+          {visibleHits.map((hit, index) => (
+            <ProductCard
+              key={`${hit.pinecone_id}-${index}`}
+              hit={hit}
+              onImageClick={() => onProductClick(hit)}
+            />
+          ))}
+        </div>
+      )}
+
+      {hits.length > ROOM_GROUP_PREVIEW_COUNT && (
+        <button
+          onClick={() => setExpanded((value) => !value)}
+          className="w-full flex items-center justify-center space-x-1 py-2 text-xs font-medium text-primary-600 hover:bg-primary-50 border-t border-neutral-100 transition-colors"
+        >
+          {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          <span>{expanded ? t("room.showLess") : t("room.showAll", { count: hits.length })}</span>
+        </button>
+      )}
+    </div>
+  );
+}
+
 // Product Card Component for Side Panel
-function ProductCard({ hit, onImageClick }: { hit: SearchHit; onImageClick: () => void }) {
+function ProductCard({
+  hit,
+  isBestMatch = false,
+  onImageClick,
+}: {
+  hit: SearchHit;
+  isBestMatch?: boolean;
+  onImageClick: () => void;
+}) {
   const [imageError, setImageError] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
   const imageUrl = hit.image_url || null;
-  const productName = hit.name_english || hit.name_arabic || hit.pinecone_id;
+  const { t, locale } = useLocale();
+  const productName = hitName(hit, locale);
+  const { formatHit, formatOriginal } = useCurrency();
+  const price = formatHit(hit);
+  const originalPrice = formatOriginal(hit);
 
   return (
-    <div className="bg-white rounded-lg border border-neutral-200 overflow-hidden hover:shadow-md transition-shadow">
+    <div
+      className="bg-white rounded-lg border border-neutral-200 overflow-hidden hover:shadow-md transition-shadow"
+      draggable
+      onDragStart={(e) => setMoodboardDragData(e.dataTransfer, { kind: "product", hit })}
+    >
       <div className="flex gap-3 p-3">
         {/* Image - Clickable */}
         <div
@@ -534,20 +1431,28 @@ function ProductCard({ hit, onImageClick }: { hit: SearchHit; onImageClick: () =
 
         {/* Details */}
         <div className="flex-1 py-1 min-w-0 flex flex-col justify-center">
+          {isBestMatch && (
+            <span className="self-start mb-1 inline-flex items-center space-x-1 text-[10px] font-semibold uppercase tracking-wide text-primary-700">
+              <Star className="w-3 h-3 fill-current" />
+              <span>{t("results.bestMatch")}</span>
+            </span>
+          )}
           <h4 className="font-semibold text-sm text-neutral-900 mb-1 truncate" title={productName}>
             {productName}
           </h4>
-          {hit.price_amount && (
-            <p className="text-xs font-semibold text-primary-600 mb-1">
-              {hit.price_amount} {hit.price_unit || 'SAR'}
+          {price && (
+            <p className="text-xs font-semibold text-primary-600 mb-1" title={originalPrice ?? undefined}>
+              {price}
             </p>
           )}
           {hit.category && (
-            <p className="text-xs text-neutral-500 capitalize">
-              {hit.category.replace(/-/g, ' ')}
+            <p className="text-xs text-neutral-500">
+              {categoryLabel(hit.category, locale)}
             </p>
           )}
+          <CompareToggle hit={hit} className="self-start mt-1 -ms-2" />
         </div>
+        <FavoriteButton hit={hit} className="self-start shadow-none" />
       </div>
     </div>
   );
@@ -1,22 +1,87 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { SearchHit } from "@/lib/api";
-import { Package, Star, Tag, ExternalLink } from "lucide-react";
+import {
+  computeFacets,
+  EMPTY_FILTERS,
+  filterHits,
+  HitFilters,
+  sortHits,
+  SortOrder,
+  topScoredHit,
+} from "@/lib/hits";
+import { Package, Star, Tag, ExternalLink, Loader2 } from "lucide-react";
 import Link from "next/link";
+import { ResultFilters, SortSelect } from "./ResultFilters";
+import { useCurrency } from "./CurrencyProvider";
+import { FavoriteButton, useFavorites } from "./FavoritesProvider";
+import { CompareToggle } from "./ComparisonProvider";
+import { useLocale } from "./LocaleProvider";
+import { countryName, hitName } from "@/lib/i18n";
+import { categoryLabel } from "@/lib/categories";
+import { setMoodboardDragData } from "@/lib/moodboard";
+import { HitExportContext } from "@/lib/exportHits";
+import { ExportResultsMenu } from "./ExportResultsMenu";
 
 interface SearchResultsProps {
   hits: SearchHit[];
   message?: string | null;
+  /** Fetch deeper results; the control is hidden when omitted */
+  onLoadMore?: () => void;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  /** Query details written into exports; the export control is hidden when omitted */
+  exportContext?: HitExportContext;
+  /**
+   * Called when the filters change so the parent can re-query with them;
+   * `hits` are still filtered locally until the new results arrive
+   */
+  onFiltersChange?: (filters: HitFilters) => void;
+  /** Hits the facets are computed from, when `hits` are already filtered; defaults to `hits` */
+  facetHits?: SearchHit[];
+  /** A re-query with the current filters is in flight */
+  filtering?: boolean;
 }
 
-export function SearchResults({ hits, message }: SearchResultsProps) {
-  if (hits.length === 0) {
+export function SearchResults({
+  hits,
+  message,
+  onLoadMore,
+  hasMore = false,
+  loadingMore = false,
+  exportContext,
+  onFiltersChange,
+  facetHits = hits,
+  filtering = false,
+}: SearchResultsProps) {
+  const { t } = useLocale();
+  const [filters, setFilters] = useState<HitFilters>(EMPTY_FILTERS);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("similarity");
+  const facets = useMemo(() => computeFacets(facetHits), [facetHits]);
+  const visibleHits = useMemo(
+    () => sortHits(filterHits(hits, filters), sortOrder),
+    [hits, filters, sortOrder]
+  );
+  const bestMatch = useMemo(() => topScoredHit(hits), [hits]);
+  const { refreshFavorites } = useFavorites();
+
+  // Saved products pick up price and availability changes from fresh results
+  useEffect(() => {
+    refreshFavorites(hits);
+  }, [hits, refreshFavorites]);
+
+  const updateFilters = (next: HitFilters) => {
+    setFilters(next);
+    onFiltersChange?.(next);
+  };
+
+  if (facetHits.length === 0) {
     return (
       <div className="text-center py-12">
         <Package className="w-16 h-16 text-neutral-300 mx-auto mb-4" />
         <p className="text-xl text-neutral-600 mb-2 font-semibold">
-          No products found
+          {t("results.none")}
         </p>
         {message && (
           <p className="text-base text-neutral-500 mb-4 max-w-md mx-auto">
@@ -28,14 +93,14 @@ export function SearchResults({ hits, message }: SearchResultsProps) {
             href="/"
             className="text-primary-600 hover:text-primary-700 underline font-medium"
           >
-            Try a different search
+            {t("results.tryDifferent")}
           </Link>
-          <span className="text-neutral-400">or</span>
+          <span className="text-neutral-400">{t("results.or")}</span>
           <Link
             href="/catalog"
             className="text-primary-600 hover:text-primary-700 underline font-medium"
           >
-            Add products to catalog
+            {t("results.addProducts")}
           </Link>
         </div>
       </div>
@@ -44,34 +109,98 @@ export function SearchResults({ hits, message }: SearchResultsProps) {
 
   return (
     <div>
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-neutral-900 mb-2">
-          Search Results
-        </h1>
-        <p className="text-neutral-600">
-          Found {hits.length} product{hits.length !== 1 ? "s" : ""}
-        </p>
+      <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-neutral-900 mb-2">
+            {t("results.title")}
+          </h1>
+          <p className="text-neutral-600 flex items-center gap-2">
+            <span>
+              {visibleHits.length === hits.length
+                ? t("results.found", { count: hits.length })
+                : t("results.showing", { visible: visibleHits.length, total: hits.length })}
+            </span>
+            {filtering && <Loader2 className="w-4 h-4 animate-spin" aria-label={t("filters.applying")} />}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {exportContext && <ExportResultsMenu hits={visibleHits} context={exportContext} />}
+          <SortSelect value={sortOrder} onChange={setSortOrder} />
+        </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-        {hits.map((hit, index) => (
-          <ProductCard key={`${hit.pinecone_id}-${index}`} hit={hit} rank={index + 1} />
-        ))}
+      <div className="flex flex-col lg:flex-row gap-8">
+        <aside className="lg:w-64 flex-shrink-0">
+          <ResultFilters
+            facets={facets}
+            filters={filters}
+            onChange={updateFilters}
+            className="bg-white rounded-lg border border-neutral-200 p-4 lg:sticky lg:top-24"
+          />
+        </aside>
+
+        <div className="flex-1 min-w-0">
+          {visibleHits.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {visibleHits.map((hit, index) => (
+                <ProductCard
+                  key={`${hit.pinecone_id}-${index}`}
+                  hit={hit}
+                  isBestMatch={hit === bestMatch}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <p className="text-neutral-600 mb-2 font-medium">
+                {filtering ? t("filters.applying") : t("filters.noMatch")}
+              </p>
+              {!filtering && (
+                <button
+                  onClick={() => updateFilters(EMPTY_FILTERS)}
+                  className="text-primary-600 hover:text-primary-700 underline font-medium"
+                >
+                  {t("filters.clear")}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
       </div>
+
+      {onLoadMore && hasMore && (
+        <div className="mt-8 flex justify-center">
+          <button
+            onClick={onLoadMore}
+            disabled={loadingMore}
+            className="flex items-center space-x-2 px-6 py-2 text-sm font-medium text-primary-600 border border-primary-200 rounded-lg hover:bg-primary-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>{loadingMore ? t("results.loadingMore") : t("results.loadMore")}</span>
+          </button>
+        </div>
+      )}
     </div>
   );
 }
 
-function ProductCard({ hit, rank }: { hit: SearchHit; rank: number }) {
+function ProductCard({ hit, isBestMatch }: { hit: SearchHit; isBestMatch: boolean }) {
   const [imageError, setImageError] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
 
   const imageUrl = hit.image_url || null;
-  const productName = hit.name_english || hit.name_arabic || hit.pinecone_id;
-  const hasPrice = hit.price_amount !== null && hit.price_amount !== undefined;
+  const { t, locale } = useLocale();
+  const productName = hitName(hit, locale);
+  const { formatHit, formatOriginal } = useCurrency();
+  const price = formatHit(hit);
+  const originalPrice = formatOriginal(hit);
 
   const CardContent = (
-    <div className="bg-white rounded-lg border border-neutral-200 overflow-hidden hover:shadow-lg transition-shadow">
+    <div
+      className="bg-white rounded-lg border border-neutral-200 overflow-hidden hover:shadow-lg transition-shadow"
+      draggable
+      onDragStart={(e) => setMoodboardDragData(e.dataTransfer, { kind: "product", hit })}
+    >
       <div className="aspect-square bg-neutral-100 flex items-center justify-center relative overflow-hidden">
         {imageUrl && !imageError ? (
           <>
@@ -96,12 +225,13 @@ function ProductCard({ hit, rank }: { hit: SearchHit; rank: number }) {
             <Package className="w-24 h-24 text-neutral-400" />
           </div>
         )}
-        {rank === 1 && (
-          <div className="absolute top-2 left-2 bg-primary-600 text-white px-2 py-1 rounded-md text-xs font-semibold flex items-center space-x-1">
+        {isBestMatch && (
+          <div className="absolute top-2 start-2 bg-primary-600 text-white px-2 py-1 rounded-md text-xs font-semibold flex items-center space-x-1">
             <Star className="w-3 h-3 fill-current" />
-            <span>Best Match</span>
+            <span>{t("results.bestMatch")}</span>
           </div>
         )}
+        <FavoriteButton hit={hit} className="absolute top-2 end-2" />
       </div>
       <div className="p-4">
         <div className="flex items-start justify-between mb-2">
@@ -112,18 +242,22 @@ function ProductCard({ hit, rank }: { hit: SearchHit; rank: number }) {
             {hit.category && (
               <div className="flex items-center space-x-1 text-sm text-neutral-600 mb-2">
                 <Tag className="w-3 h-3" />
-                <span className="capitalize">{hit.category.replace(/-/g, ' ')}</span>
+                <span>{categoryLabel(hit.category, locale)}</span>
               </div>
             )}
           </div>
+          <CompareToggle hit={hit} className="ms-2 flex-shrink-0" />
         </div>
 
         {/* Price */}
-        {hasPrice && (
+        {price && (
           <div className="mb-3">
             <span className="text-lg font-bold text-primary-600">
-              {hit.price_amount} {hit.price_unit || 'SAR'}
+              {price}
             </span>
+            {originalPrice && (
+              <span className="ms-2 text-xs text-neutral-500">({originalPrice})</span>
+            )}
           </div>
         )}
 
@@ -133,14 +267,16 @@ function ProductCard({ hit, rank }: { hit: SearchHit; rank: number }) {
             <div className="text-xs text-neutral-500 space-y-1">
               {hit.store && (
                 <div className="flex justify-between">
-                  <span>Store:</span>
+                  <span>{t("results.store")}</span>
                   <span className="text-neutral-700 font-medium">{hit.store}</span>
                 </div>
               )}
               {hit.countries && hit.countries.length > 0 && (
                 <div className="flex justify-between">
-                  <span>Available in:</span>
-                  <span className="text-neutral-700 font-medium">{hit.countries.join(', ')}</span>
+                  <span>{t("results.availableIn")}</span>
+                  <span className="text-neutral-700 font-medium">
+                    {hit.countries.map((code) => countryName(code, locale)).join(locale === "ar" ? "، " : ", ")}
+                  </span>
                 </div>
               )}
             </div>
@@ -155,7 +291,7 @@ function ProductCard({ hit, rank }: { hit: SearchHit; rank: number }) {
             rel="noopener noreferrer"
             className="mt-3 flex items-center justify-center space-x-2 text-sm text-primary-600 hover:text-primary-700 font-medium transition-colors"
           >
-            <span>View Product</span>
+            <span>{t("results.viewProduct")}</span>
             <ExternalLink className="w-4 h-4" />
           </a>
         )}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Download, ExternalLink, Heart, Package, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { categoryLabel } from "@/lib/categories";
+import { BASE_CURRENCY, convertPrice } from "@/lib/currency";
+import { downloadFile, toCsv } from "@/lib/csv";
+import { hitName, localeTag } from "@/lib/i18n";
+import { useCurrency } from "./CurrencyProvider";
+import { Favorite, useFavorites } from "./FavoritesProvider";
+import { useLocale } from "./LocaleProvider";
+
+/**
+ * Favorites as CSV, with prices converted to the display currency
+ */
+function favoritesToCsv(favorites: Favorite[], currency: string): string {
+  const header = [
+    "pinecone_id",
+    "name_english",
+    "name_arabic",
+    "category",
+    "price_amount",
+    "price_unit",
+    `price_${currency}`,
+    "store",
+    "countries",
+    "product_url",
+    "is_active",
+    "added_at",
+  ];
+  const rows = favorites.map(({ hit, addedAt }) => {
+    const converted =
+      hit.price_amount == null ? null : convertPrice(hit.price_amount, hit.price_unit || BASE_CURRENCY, currency);
+    return [
+      hit.pinecone_id,
+      hit.name_english,
+      hit.name_arabic,
+      hit.category,
+      hit.price_amount,
+      hit.price_unit,
+      converted == null ? null : converted.toFixed(2),
+      hit.store,
+      hit.countries?.join(";"),
+      hit.product_url,
+      hit.is_active,
+      new Date(addedAt).toISOString(),
+    ];
+  });
+  return toCsv(header, rows);
+}
+
+export function Wishlist() {
+  const { favorites, removeFavorites } = useFavorites();
+  const { currency } = useCurrency();
+  const { t } = useLocale();
+  const inactiveIds = favorites
+    .filter((favorite) => favorite.hit.is_active === false)
+    .map((favorite) => favorite.hit.pinecone_id);
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(favoritesToCsv(favorites, currency), `wishlist-${date}.csv`, "text/csv;charset=utf-8");
+  };
+
+  if (favorites.length === 0) {
+    return (
+      <div className="text-center py-16 bg-white rounded-lg border border-neutral-200">
+        <Heart className="w-16 h-16 text-neutral-300 mx-auto mb-4" />
+        <p className="text-xl text-neutral-600 mb-2 font-semibold">{t("wishlist.empty")}</p>
+        <p className="text-neutral-500 mb-6">{t("wishlist.emptyHint")}</p>
+        <Link
+          href="/"
+          className="px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium"
+        >
+          {t("wishlist.startSearch")}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-neutral-600">{t("results.productCount", { count: favorites.length })}</p>
+        <div className="flex items-center space-x-2">
+          {inactiveIds.length > 0 && (
+            <button
+              onClick={() => removeFavorites(inactiveIds)}
+              className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>{t("wishlist.removeInactive", { count: inactiveIds.length })}</span>
+            </button>
+          )}
+          <button
+            onClick={handleExport}
+            className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-neutral-700 border border-neutral-300 hover:bg-neutral-50 rounded-lg transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            <span>{t("wishlist.export")}</span>
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-3">
+        {favorites.map((favorite) => (
+          <WishlistItem
+            key={favorite.hit.pinecone_id}
+            favorite={favorite}
+            onRemove={() => removeFavorites([favorite.hit.pinecone_id])}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function WishlistItem({ favorite, onRemove }: { favorite: Favorite; onRemove: () => void }) {
+  const [imageError, setImageError] = useState(false);
+  const { hit, addedAt } = favorite;
+  const { t, locale } = useLocale();
+  const { formatHit, formatOriginal } = useCurrency();
+  const productName = hitName(hit, locale);
+  const price = formatHit(hit);
+  const originalPrice = formatOriginal(hit);
+  const inactive = hit.is_active === false;
+  const savedAt = new Intl.DateTimeFormat(localeTag(locale), { dateStyle: "medium" }).format(addedAt);
+
+  return (
+    <li
+      className={cn(
+        "flex items-center gap-4 p-3 bg-white rounded-lg border border-neutral-200",
+        inactive && "opacity-60"
+      )}
+    >
+      <div className="w-20 h-20 rounded bg-neutral-100 flex-shrink-0 overflow-hidden flex items-center justify-center">
+        {hit.image_url && !imageError ? (
+          <img
+            src={hit.image_url}
+            alt={productName}
+            className="w-full h-full object-cover"
+            onError={() => setImageError(true)}
+          />
+        ) : (
+          <Package className="w-6 h-6 text-neutral-400" />
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center space-x-2">
+          <h3 className="font-semibold text-neutral-900 truncate" title={productName}>
+            {productName}
+          </h3>
+          {inactive && (
+            <span className="px-2 py-0.5 rounded-full bg-neutral-100 text-neutral-600 text-xs font-medium flex-shrink-0">
+              {t("wishlist.inactive")}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-neutral-600">
+          {[hit.category && categoryLabel(hit.category, locale), hit.store].filter(Boolean).join(" · ")}
+        </p>
+        {price && (
+          <p className="text-sm font-semibold text-primary-600">
+            {price}
+            {originalPrice && <span className="ms-2 text-xs font-normal text-neutral-500">({originalPrice})</span>}
+          </p>
+        )}
+        <p className="text-xs text-neutral-500">{t("wishlist.savedAt", { date: savedAt })}</p>
+      </div>
+
+      <div className="flex items-center space-x-1 flex-shrink-0">
+        {hit.product_url && (
+          <a
+            href={hit.product_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="p-2 hover:bg-neutral-100 rounded-lg transition-colors"
+            title={t("results.viewProduct")}
+          >
+            <ExternalLink className="w-4 h-4 text-primary-600" />
+          </a>
+        )}
+        <button
+          onClick={onRemove}
+          className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+          title={t("favorites.remove")}
+        >
+          <Trash2 className="w-4 h-4 text-red-600" />
+        </button>
+      </div>
+    </li>
+  );
+}
@@ -1,4 +1,12 @@
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
+import { array, boolean, jsonObject, number, object, optional, parse, Schema, SchemaError, string } from "./validation";
+
+// Send requests to the same-origin route handlers in app/api/v1 instead of the backend
+const USE_API_PROXY = process.env.NEXT_PUBLIC_USE_API_PROXY === "true";
+const API_BASE_URL = USE_API_PROXY
+  ? ""
+  : process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
+// Serve every request from the in-browser mock backend (lib/mockBackend.ts)
+const MOCK_API_ENABLED = process.env.NEXT_PUBLIC_MOCK_API === "true";
 
 export interface SearchHit {
   pinecone_id: string;
@@ -22,12 +30,70 @@ export interface SearchResponse {
   message?: string | null;
 }
 
+/**
+ * Filters applied by the backend before ranking, so top_k is spent only on
+ * matching products. Omitted fields are not filtered on.
+ */
+export interface SearchFilters {
+  /** Price bounds in SAR; the backend converts other currencies before comparing */
+  price_min?: number;
+  price_max?: number;
+  stores?: string[];
+  countries?: string[];
+  /** Only return active products */
+  active_only?: boolean;
+}
+
 export interface CatalogUpsertResponse {
   sku_id: string;
   image_id: string;
   upserted: boolean;
 }
 
+export interface CatalogItem {
+  sku_id: string;
+  category: string;
+  image_url?: string | null;
+  attributes?: Record<string, unknown> | null;
+}
+
+export interface CatalogListResponse {
+  items: CatalogItem[];
+  /** Items matching the filter across all pages */
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface CatalogDeleteResponse {
+  sku_id: string;
+  deleted: boolean;
+}
+
+/**
+ * A saved search: the query the backend keeps so it can be re-run, and the
+ * results shown at the time, served at /results/[id] to anyone with the id
+ */
+export interface SearchSessionRecord {
+  id: string;
+  /** ISO 8601 timestamp */
+  created_at: string;
+  /** Small JPEG data URL of the query image */
+  thumbnail?: string | null;
+  category?: string | null;
+  /** Selected object or drawn region, in original image pixels */
+  selection?: SessionSelection | null;
+  hits: SearchHit[];
+  message?: string | null;
+  /** top_k of the latest page fetched */
+  top_k?: number | null;
+}
+
+export interface SessionSelection {
+  bbox: BBox;
+  drawn: boolean;
+}
+
 export interface BBox {
   x1: number;
   y1: number;
@@ -66,129 +132,598 @@ export interface HealthResponse {
   status: string;
 }
 
+// Runtime schemas for the response types above; optional fields are normalised to null
+const searchHitSchema = object<SearchHit>({
+  pinecone_id: string,
+  score: number,
+  image_url: optional(string),
+  product_url: optional(string),
+  name_english: optional(string),
+  name_arabic: optional(string),
+  category: optional(string),
+  price_amount: optional(number),
+  price_unit: optional(string),
+  is_active: optional(boolean),
+  store_id: optional(number),
+  countries: optional(array(string)),
+  store: optional(string),
+});
+
+const searchResponseSchema = object<SearchResponse>({
+  query_category: optional(string),
+  hits: array(searchHitSchema),
+  message: optional(string),
+});
+
+const catalogUpsertResponseSchema = object<CatalogUpsertResponse>({
+  sku_id: string,
+  image_id: string,
+  upserted: boolean,
+});
+
+const catalogItemSchema = object<CatalogItem>({
+  sku_id: string,
+  category: string,
+  image_url: optional(string),
+  attributes: optional(jsonObject),
+});
+
+const catalogListResponseSchema = object<CatalogListResponse>({
+  items: array(catalogItemSchema),
+  total: number,
+  offset: number,
+  limit: number,
+});
+
+const catalogDeleteResponseSchema = object<CatalogDeleteResponse>({
+  sku_id: string,
+  deleted: boolean,
+});
+
+const bboxSchema = object<BBox>({
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+});
+
+const searchSessionRecordSchema = object<SearchSessionRecord>({
+  id: string,
+  created_at: string,
+  thumbnail: optional(string),
+  category: optional(string),
+  selection: optional(object<SessionSelection>({ bbox: bboxSchema, drawn: boolean })),
+  hits: array(searchHitSchema),
+  message: optional(string),
+  top_k: optional(number),
+});
+
+const detectionResponseSchema = object<DetectionResponse>({
+  objects: array(
+    object<DetectedObject>({
+      category: string,
+      bbox: bboxSchema,
+      score: number,
+      object_id: number,
+    })
+  ),
+  image_width: number,
+  image_height: number,
+});
+
+const detectionSegmentationResponseSchema = object<DetectionSegmentationResponse>({
+  objects: array(
+    object<SegmentedObject>({
+      category: string,
+      bbox: bboxSchema,
+      score: number,
+      object_id: number,
+      mask_base64: string,
+    })
+  ),
+  image_width: number,
+  image_height: number,
+});
+
+const healthResponseSchema = object<HealthResponse>({
+  status: string,
+});
+
+/**
+ * What went wrong with a request:
+ * - network:    the server could not be reached
+ * - timeout:    no response within the per-call timeout
+ * - aborted:    cancelled through the caller's AbortSignal
+ * - validation: the backend rejected the input (FastAPI 422)
+ * - not-found:  the resource does not exist (404)
+ * - client:     any other 4xx response
+ * - server:     5xx response
+ * - contract:   the response did not match the expected schema
+ * - unknown:    anything else thrown while making the request
+ */
+export type ApiErrorKind =
+  | "network"
+  | "timeout"
+  | "aborted"
+  | "validation"
+  | "not-found"
+  | "client"
+  | "server"
+  | "contract"
+  | "unknown";
+
+/**
+ * A single entry of a FastAPI validation error `detail` array
+ */
+export interface ValidationIssue {
+  /** Location as reported by FastAPI, e.g. ["body", "sku_id"] */
+  loc: (string | number)[];
+  /** Field name with the request section stripped, e.g. "sku_id" */
+  field: string;
+  msg: string;
+  type?: string;
+}
+
+/**
+ * Header set on errors generated by the API proxy (lib/backendProxy.ts) so an
+ * unreachable backend can be told apart from an error the backend returned.
+ */
+export const PROXY_ERROR_HEADER = "x-proxy-error";
+
+export type ProxyErrorCode = "backend-unreachable" | "backend-timeout" | "body-too-large";
+
+export interface ApiErrorInit {
+  kind: ApiErrorKind;
+  status?: number;
+  response?: Response;
+  /** For contract errors, the response field that failed validation */
+  path?: string;
+  /** For validation errors, every issue reported by the backend */
+  issues?: ValidationIssue[];
+}
+
 export class ApiError extends Error {
-  constructor(
-    message: string,
-    public status?: number,
-    public response?: Response
-  ) {
+  kind: ApiErrorKind;
+  status?: number;
+  response?: Response;
+  path?: string;
+  issues: ValidationIssue[];
+
+  constructor(message: string, init: ApiErrorInit) {
     super(message);
     this.name = "ApiError";
+    this.kind = init.kind;
+    this.status = init.status;
+    this.response = init.response;
+    this.path = init.path;
+    this.issues = init.issues ?? [];
   }
-}
-
-async function handleResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    let errorMessage = `HTTP error! status: ${response.status}`;
 
-    try {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("application/json")) {
-        const errorData = await response.json();
-        // FastAPI returns errors in format: { "detail": "error message" }
-        // Handle both string and array formats
-        if (typeof errorData.detail === "string") {
-          errorMessage = errorData.detail;
-        } else if (Array.isArray(errorData.detail)) {
-          // Handle validation errors array
-          const firstError = errorData.detail[0];
-          if (firstError && typeof firstError === "object") {
-            const field = firstError.loc?.join(".") || "field";
-            errorMessage = `Validation error for ${field}: ${firstError.msg || "Invalid value"}`;
-          } else {
-            errorMessage = errorData.detail.join(", ");
-          }
-        } else if (errorData.message) {
-          errorMessage = errorData.message;
-        } else {
-          errorMessage = JSON.stringify(errorData);
-        }
-      } else {
-        const errorText = await response.text();
-        if (errorText) {
-          errorMessage = errorText;
-        }
+  /**
+   * Validation messages keyed by field name (first message wins per field)
+   */
+  fieldErrors(): Record<string, string> {
+    const errors: Record<string, string> = {};
+    for (const issue of this.issues) {
+      if (!(issue.field in errors)) {
+        errors[issue.field] = issue.msg;
       }
-    } catch {
-      // If parsing fails, use default error message
     }
-
-    throw new ApiError(errorMessage, response.status, response);
+    return errors;
   }
-  return response.json();
 }
 
-export async function healthCheck(): Promise<HealthResponse> {
+/**
+ * Returns true when the error comes from a caller-supplied AbortSignal,
+ * i.e. the request was cancelled on purpose and should not be reported.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof ApiError && error.kind === "aborted";
+}
+
+export interface RequestOptions {
+  /** Caller-supplied signal; aborting it cancels the request (and pending retries) */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs?: number;
+  /** Number of retries after the first attempt (idempotent calls only) */
+  retries?: number;
+}
+
+interface RequestConfig<T> extends RequestOptions {
+  schema: Schema<T>;
+  method?: "GET" | "POST" | "PATCH" | "DELETE";
+  body?: FormData;
+  /** Only idempotent requests are retried on network and 5xx failures */
+  idempotent?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 5_000;
+
+function networkError(): ApiError {
+  return new ApiError(
+    USE_API_PROXY
+      ? "Unable to connect to the server. Please check your connection and try again."
+      : `Unable to connect to the server. Please check if the backend is running at ${API_BASE_URL}`,
+    { kind: "network", status: 0 }
+  );
+}
+
+function abortedError(): ApiError {
+  return new ApiError("Request was cancelled", { kind: "aborted", status: 0 });
+}
+
+function timeoutError(timeoutMs: number): ApiError {
+  return new ApiError(
+    `The server did not respond within ${Math.round(timeoutMs / 1000)} seconds. Please try again.`,
+    { kind: "timeout", status: 0 }
+  );
+}
+
+function isRetryable(error: ApiError): boolean {
+  return error.kind === "network" || error.kind === "server";
+}
+
+/**
+ * Wait before the next retry attempt, rejecting early if the caller aborts.
+ */
+function backoff(attemptIndex: number, signal?: AbortSignal): Promise<void> {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attemptIndex, RETRY_MAX_DELAY_MS);
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Perform a single fetch attempt with its own timeout, linked to the
+ * caller's signal so either one cancels the underlying request.
+ */
+async function attempt<T>(url: string, config: RequestConfig<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  config.signal?.addEventListener("abort", onAbort, { once: true });
+
   try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/health`);
-    return handleResponse<HealthResponse>(response);
+    const fetchImpl = MOCK_API_ENABLED ? (await import("./mockBackend")).mockFetch : fetch;
+    const response = await fetchImpl(url, {
+      method: config.method ?? "GET",
+      body: config.body,
+      signal: controller.signal,
+    });
+    return await handleResponse(response, config.schema);
   } catch (error) {
-    if (error instanceof TypeError && error.message.includes("fetch")) {
-      throw new ApiError(
-        `Unable to connect to the server. Please check if the backend is running at ${API_BASE_URL}`,
-        0
-      );
+    // Checked first: the abort may land while the body is still being read
+    if (timedOut) {
+      throw timeoutError(timeoutMs);
+    }
+    if (config.signal?.aborted) {
+      throw abortedError();
     }
     if (error instanceof ApiError) {
       throw error;
     }
+    // fetch rejects with a TypeError on network failures (connection refused, CORS, etc.)
+    if (error instanceof TypeError) {
+      throw networkError();
+    }
     throw new ApiError(
       error instanceof Error ? error.message : "An unexpected error occurred",
-      0
+      { kind: "unknown", status: 0 }
     );
+  } finally {
+    clearTimeout(timer);
+    config.signal?.removeEventListener("abort", onAbort);
   }
 }
 
-export async function searchProducts(
-  image: File,
-  options?: {
-    category?: string;
-    top_k?: number;
+/**
+ * Shared request pipeline used by every endpoint: applies the per-call
+ * timeout, honours the caller's AbortSignal and retries idempotent calls
+ * with exponential backoff on network and 5xx failures.
+ */
+async function request<T>(path: string, config: RequestConfig<T>): Promise<T> {
+  const url = `${API_BASE_URL}${path}`;
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = config.idempotent ? config.retries ?? DEFAULT_RETRIES : 0;
+
+  if (config.signal?.aborted) {
+    throw abortedError();
   }
-): Promise<SearchResponse> {
-  const formData = new FormData();
-  formData.append("image", image);
 
-  if (options?.category) {
-    formData.append("assigned_category", options.category);
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    try {
+      return await attempt<T>(url, config, timeoutMs);
+    } catch (error) {
+      if (!(error instanceof ApiError) || attemptIndex >= retries || !isRetryable(error)) {
+        throw error;
+      }
+      await backoff(attemptIndex, config.signal);
+    }
   }
+}
 
-  // Always send top_k (backend defaults to 20 if not provided)
-  const topK = options?.top_k && options.top_k > 0 ? options.top_k : 20;
-  formData.append("top_k", topK.toString());
+function kindForStatus(status: number, proxyError: string | null): ApiErrorKind {
+  // The proxy answered on behalf of a backend it could not reach
+  if (proxyError === "backend-unreachable") return "network";
+  if (proxyError === "backend-timeout") return "timeout";
+  if (status === 422) return "validation";
+  if (status === 404) return "not-found";
+  if (status >= 500) return "server";
+  return "client";
+}
+
+// Sections FastAPI prefixes to `loc`; the field name is what follows
+const LOC_SECTIONS = ["body", "query", "path", "header", "cookie"];
+
+function toValidationIssue(item: unknown): ValidationIssue | null {
+  if (!item || typeof item !== "object") return null;
+  const entry = item as { loc?: unknown; msg?: unknown; type?: unknown };
+  const loc = Array.isArray(entry.loc) ? (entry.loc as (string | number)[]) : [];
+  const fieldPath = LOC_SECTIONS.includes(String(loc[0])) ? loc.slice(1) : loc;
+  return {
+    loc,
+    field: fieldPath.join(".") || "request",
+    msg: typeof entry.msg === "string" ? entry.msg : "Invalid value",
+    type: typeof entry.type === "string" ? entry.type : undefined,
+  };
+}
+
+async function toApiError(response: Response): Promise<ApiError> {
+  let errorMessage = `HTTP error! status: ${response.status}`;
+  let kind = kindForStatus(response.status, response.headers.get(PROXY_ERROR_HEADER));
+  let issues: ValidationIssue[] = [];
 
   try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/search`, {
-      method: "POST",
-      body: formData,
-    });
+    const contentType = response.headers.get("content-type");
+    if (contentType && contentType.includes("application/json")) {
+      const errorData = await response.json();
+      // FastAPI returns errors in format: { "detail": "error message" }
+      // Handle both string and array formats
+      if (typeof errorData.detail === "string") {
+        errorMessage = errorData.detail;
+      } else if (Array.isArray(errorData.detail)) {
+        // Validation errors: keep every loc/msg entry
+        issues = errorData.detail
+          .map(toValidationIssue)
+          .filter((issue: ValidationIssue | null): issue is ValidationIssue => issue !== null);
+        if (issues.length > 0) {
+          kind = "validation";
+          errorMessage = issues
+            .map((issue) => `Validation error for ${issue.field}: ${issue.msg}`)
+            .join("\n");
+        } else {
+          errorMessage = errorData.detail.join(", ");
+        }
+      } else if (errorData.message) {
+        errorMessage = errorData.message;
+      } else {
+        errorMessage = JSON.stringify(errorData);
+      }
+    } else {
+      const errorText = await response.text();
+      if (errorText) {
+        errorMessage = errorText;
+      }
+    }
+  } catch {
+    // If parsing fails, use default error message
+  }
+
+  return new ApiError(errorMessage, { kind, status: response.status, response, issues });
+}
+
+async function handleResponse<T>(response: Response, schema: Schema<T>): Promise<T> {
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch (error) {
+    // Anything else (an abort or network failure mid-body) is handled by attempt()
+    if (!(error instanceof SyntaxError)) throw error;
+    throw new ApiError(
+      "Unexpected response from the server: body is not valid JSON",
+      { kind: "contract", status: response.status, response, path: "(root)" }
+    );
+  }
 
-    return handleResponse<SearchResponse>(response);
+  try {
+    return parse(schema, data);
   } catch (error) {
-    // Handle network errors (connection refused, CORS, etc.)
-    if (error instanceof TypeError && error.message.includes("fetch")) {
+    if (error instanceof SchemaError) {
       throw new ApiError(
-        `Unable to connect to the server. Please check if the backend is running at ${API_BASE_URL}`,
-        0
+        `Unexpected response from the server: ${error.message}`,
+        { kind: "contract", status: response.status, response, path: error.path }
       );
     }
-    // Re-throw if it's already an ApiError
-    if (error instanceof ApiError) {
-      throw error;
-    }
-    // Handle other errors
-    throw new ApiError(
-      error instanceof Error ? error.message : "An unexpected error occurred",
-      0
+    throw error;
+  }
+}
+
+export async function healthCheck(options?: RequestOptions): Promise<HealthResponse> {
+  return request<HealthResponse>("/api/v1/health", {
+    schema: healthResponseSchema,
+    timeoutMs: 5_000,
+    ...options,
+    idempotent: true,
+  });
+}
+
+/**
+ * Image, category and region of a search, as sent to /search and kept
+ * with saved sessions so they can be re-run
+ */
+export interface SearchQuery {
+  image: File;
+  category?: string;
+  /** Region of the image to search, in original image pixels */
+  bbox?: BBox;
+}
+
+function searchQueryFormData({ image, category, bbox }: SearchQuery): FormData {
+  const formData = new FormData();
+  formData.append("image", image);
+
+  if (category) {
+    formData.append("assigned_category", category);
+  }
+
+  if (bbox) {
+    formData.append(
+      "bbox_json",
+      JSON.stringify({
+        x1: Math.round(bbox.x1),
+        y1: Math.round(bbox.y1),
+        x2: Math.round(bbox.x2),
+        y2: Math.round(bbox.y2),
+      })
     );
   }
+  return formData;
+}
+
+function appendSearchOptions(formData: FormData, top_k?: number, filters?: SearchFilters): void {
+  if (filters && Object.keys(filters).length > 0) {
+    formData.append("filters_json", JSON.stringify(filters));
+  }
+
+  // Always send top_k (backend defaults to 20 if not provided)
+  const topK = top_k && top_k > 0 ? top_k : 20;
+  formData.append("top_k", topK.toString());
+}
+
+export async function searchProducts(
+  image: File,
+  options?: RequestOptions & {
+    category?: string;
+    top_k?: number;
+    /** Region of the image to search, in original image pixels */
+    bbox?: BBox;
+    filters?: SearchFilters;
+  }
+): Promise<SearchResponse> {
+  const { category, top_k, bbox, filters, ...requestOptions } = options ?? {};
+  const formData = searchQueryFormData({ image, category, bbox });
+  appendSearchOptions(formData, top_k, filters);
+
+  // Search is read-only, so it is safe to retry
+  return request<SearchResponse>("/api/v1/search", {
+    schema: searchResponseSchema,
+    timeoutMs: 30_000,
+    ...requestOptions,
+    method: "POST",
+    body: formData,
+    idempotent: true,
+  });
+}
+
+/**
+ * Save a search on the backend, which assigns its short id
+ */
+export async function createSearchSession(
+  query: SearchQuery,
+  session: Pick<SearchSessionRecord, "thumbnail" | "selection" | "hits" | "message" | "top_k">,
+  options?: RequestOptions
+): Promise<SearchSessionRecord> {
+  const formData = searchQueryFormData(query);
+  if (session.thumbnail) formData.append("thumbnail", session.thumbnail);
+  if (session.selection) formData.append("selection_json", JSON.stringify(session.selection));
+  formData.append("hits_json", JSON.stringify(session.hits));
+  if (session.message) formData.append("message", session.message);
+  if (session.top_k) formData.append("top_k", session.top_k.toString());
+
+  // Writes are never retried automatically
+  return request<SearchSessionRecord>("/api/v1/sessions", {
+    schema: searchSessionRecordSchema,
+    ...options,
+    method: "POST",
+    body: formData,
+  });
+}
+
+/**
+ * Throws an ApiError of kind "not-found" for an unknown or expired id
+ */
+export async function fetchSearchSession(id: string, options?: RequestOptions): Promise<SearchSessionRecord> {
+  return request<SearchSessionRecord>(`/api/v1/sessions/${encodeURIComponent(id)}`, {
+    schema: searchSessionRecordSchema,
+    ...options,
+    idempotent: true,
+  });
+}
+
+/**
+ * Replace a saved search's hits, e.g. after loading more results
+ */
+export async function patchSearchSession(
+  id: string,
+  update: { hits: SearchHit[]; top_k: number },
+  options?: RequestOptions
+): Promise<SearchSessionRecord> {
+  const formData = new FormData();
+  formData.append("hits_json", JSON.stringify(update.hits));
+  formData.append("top_k", update.top_k.toString());
+
+  // Writes are never retried automatically
+  return request<SearchSessionRecord>(`/api/v1/sessions/${encodeURIComponent(id)}`, {
+    schema: searchSessionRecordSchema,
+    ...options,
+    method: "PATCH",
+    body: formData,
+  });
+}
+
+/**
+ * Run a saved search's query again, e.g. with filters; the session itself
+ * is not changed
+ */
+export async function rerunSearchSession(
+  id: string,
+  options?: RequestOptions & { top_k?: number; filters?: SearchFilters }
+): Promise<SearchResponse> {
+  const { top_k, filters, ...requestOptions } = options ?? {};
+  const formData = new FormData();
+  appendSearchOptions(formData, top_k, filters);
+
+  // Read-only like /search, so it is safe to retry
+  return request<SearchResponse>(`/api/v1/sessions/${encodeURIComponent(id)}/search`, {
+    schema: searchResponseSchema,
+    timeoutMs: 30_000,
+    ...requestOptions,
+    method: "POST",
+    body: formData,
+    idempotent: true,
+  });
 }
 
 export async function upsertCatalogItem(
   skuId: string,
   category: string,
   image: File,
-  attributes?: Record<string, any>
+  attributes?: Record<string, any>,
+  options?: RequestOptions
 ): Promise<CatalogUpsertResponse> {
   const formData = new FormData();
   formData.append("sku_id", skuId);
@@ -199,90 +734,90 @@ export async function upsertCatalogItem(
     formData.append("attributes_json", JSON.stringify(attributes));
   }
 
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/catalog/upsert`, {
-      method: "POST",
-      body: formData,
-    });
+  // Writes are never retried automatically
+  return request<CatalogUpsertResponse>("/api/v1/catalog/upsert", {
+    schema: catalogUpsertResponseSchema,
+    timeoutMs: 60_000,
+    ...options,
+    method: "POST",
+    body: formData,
+  });
+}
 
-    return handleResponse<CatalogUpsertResponse>(response);
-  } catch (error) {
-    // Handle network errors (connection refused, CORS, etc.)
-    if (error instanceof TypeError && error.message.includes("fetch")) {
-      throw new ApiError(
-        `Unable to connect to the server. Please check if the backend is running at ${API_BASE_URL}`,
-        0
-      );
-    }
-    // Re-throw if it's already an ApiError
-    if (error instanceof ApiError) {
-      throw error;
-    }
-    // Handle other errors
-    throw new ApiError(
-      error instanceof Error ? error.message : "An unexpected error occurred",
-      0
-    );
+export async function listCatalogItems(
+  options?: RequestOptions & {
+    category?: string;
+    offset?: number;
+    limit?: number;
   }
+): Promise<CatalogListResponse> {
+  const { category, offset, limit, ...requestOptions } = options ?? {};
+  const params = new URLSearchParams();
+  if (category) params.set("category", category);
+  if (offset) params.set("offset", offset.toString());
+  if (limit) params.set("limit", limit.toString());
+  const query = params.toString();
+
+  return request<CatalogListResponse>(`/api/v1/catalog/items${query ? `?${query}` : ""}`, {
+    schema: catalogListResponseSchema,
+    ...requestOptions,
+    idempotent: true,
+  });
+}
+
+/**
+ * Throws an ApiError of kind "not-found" for an unknown SKU
+ */
+export async function getCatalogItem(skuId: string, options?: RequestOptions): Promise<CatalogItem> {
+  return request<CatalogItem>(`/api/v1/catalog/items/${encodeURIComponent(skuId)}`, {
+    schema: catalogItemSchema,
+    ...options,
+    idempotent: true,
+  });
+}
+
+export async function deleteCatalogItem(
+  skuId: string,
+  options?: RequestOptions
+): Promise<CatalogDeleteResponse> {
+  // Writes are never retried automatically
+  return request<CatalogDeleteResponse>(`/api/v1/catalog/items/${encodeURIComponent(skuId)}`, {
+    schema: catalogDeleteResponseSchema,
+    ...options,
+    method: "DELETE",
+  });
 }
 
 export async function detectObjects(
-  image: File
+  image: File,
+  options?: RequestOptions
 ): Promise<DetectionResponse> {
   const formData = new FormData();
   formData.append("image", image);
 
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/detect`, {
-      method: "POST",
-      body: formData,
-    });
-
-    return handleResponse<DetectionResponse>(response);
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes("fetch")) {
-      throw new ApiError(
-        `Unable to connect to the server. Please check if the backend is running at ${API_BASE_URL}`,
-        0
-      );
-    }
-    if (error instanceof ApiError) {
-      throw error;
-    }
-    throw new ApiError(
-      error instanceof Error ? error.message : "An unexpected error occurred",
-      0
-    );
-  }
+  return request<DetectionResponse>("/api/v1/detect", {
+    schema: detectionResponseSchema,
+    timeoutMs: 60_000,
+    ...options,
+    method: "POST",
+    body: formData,
+    idempotent: true,
+  });
 }
 
 export async function detectAndSegmentObjects(
-  image: File
+  image: File,
+  options?: RequestOptions
 ): Promise<DetectionSegmentationResponse> {
   const formData = new FormData();
   formData.append("image", image);
 
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/detect-and-segment`, {
-      method: "POST",
-      body: formData,
-    });
-
-    return handleResponse<DetectionSegmentationResponse>(response);
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes("fetch")) {
-      throw new ApiError(
-        `Unable to connect to the server. Please check if the backend is running at ${API_BASE_URL}`,
-        0
-      );
-    }
-    if (error instanceof ApiError) {
-      throw error;
-    }
-    throw new ApiError(
-      error instanceof Error ? error.message : "An unexpected error occurred",
-      0
-    );
-  }
+  return request<DetectionSegmentationResponse>("/api/v1/detect-and-segment", {
+    schema: detectionSegmentationResponseSchema,
+    timeoutMs: 90_000,
+    ...options,
+    method: "POST",
+    body: formData,
+    idempotent: true,
+  });
 }
-
@@ -0,0 +1,307 @@
+/**
+ * Catalog attribute schemas per category: which attributes a product
+ * has, their types and allowed values, plus unit conversion and
+ * validation for the attribute editor.
+ *
+ * Measurements are stored in one base unit per quantity, named in the
+ * key (e.g. `width_cm`), so attributes never mix units. Keys outside the
+ * schema are kept as they are.
+ */
+
+import type { TranslationParams } from "./i18n";
+import { DISPLAY_CURRENCIES } from "./currency";
+
+export type Quantity = "length" | "weight";
+
+export type Unit = "mm" | "cm" | "m" | "in" | "ft" | "g" | "kg" | "lb";
+
+export type AttributeKey =
+  | "name"
+  | "price"
+  | "currency"
+  | "color"
+  | "width_cm"
+  | "length_cm"
+  | "depth_cm"
+  | "height_cm"
+  | "diameter_cm"
+  | "thickness_cm"
+  | "weight_kg"
+  | "seats"
+  | "material"
+  | "shape"
+  | "firmness";
+
+export type AttributeOption =
+  | "fabric" | "leather" | "velvet" | "linen" | "upholstered"
+  | "wood" | "glass" | "marble" | "metal" | "plastic" | "rattan" | "ceramic"
+  | "wool" | "cotton" | "silk" | "synthetic"
+  | "rectangular" | "square" | "round" | "oval"
+  | "soft" | "medium" | "firm";
+
+export type AttributeField =
+  | { key: AttributeKey; type: "measure"; quantity: Quantity; max: number }
+  | { key: AttributeKey; type: "number"; min: number; max?: number; integer?: boolean }
+  | { key: AttributeKey; type: "enum"; options: readonly AttributeOption[] }
+  // Codes from lib/currency.ts, shown as they are
+  | { key: AttributeKey; type: "currency" }
+  | { key: AttributeKey; type: "text"; suggestions?: readonly string[] };
+
+/** Input units per quantity, as multiples of the base unit (the one with factor 1) */
+export const UNITS: Record<Quantity, Partial<Record<Unit, number>>> = {
+  length: { mm: 0.1, cm: 1, m: 100, in: 2.54, ft: 30.48 },
+  weight: { g: 0.001, kg: 1, lb: 0.45359237 },
+};
+
+export const BASE_UNITS: Record<Quantity, Unit> = {
+  length: "cm",
+  weight: "kg",
+};
+
+const COLOR_SUGGESTIONS = [
+  "white", "black", "grey", "beige", "brown", "cream",
+  "blue", "green", "red", "yellow", "pink", "gold", "silver",
+];
+
+function length(key: AttributeKey, max: number = 1000): AttributeField {
+  return { key, type: "measure", quantity: "length", max };
+}
+
+function material(...options: AttributeOption[]): AttributeField {
+  return { key: "material", type: "enum", options };
+}
+
+// Every category has these
+const COMMON_FIELDS: AttributeField[] = [
+  { key: "name", type: "text" },
+  { key: "price", type: "number", min: 0 },
+  { key: "currency", type: "currency" },
+  { key: "color", type: "text", suggestions: COLOR_SUGGESTIONS },
+];
+
+const WEIGHT_FIELD: AttributeField = { key: "weight_kg", type: "measure", quantity: "weight", max: 1000 };
+
+const SOFA_FIELDS: AttributeField[] = [
+  length("width_cm"),
+  length("depth_cm"),
+  length("height_cm"),
+  { key: "seats", type: "number", min: 1, max: 12, integer: true },
+  material("fabric", "leather", "velvet", "linen"),
+];
+
+const TABLE_FIELDS: AttributeField[] = [
+  length("width_cm"),
+  length("depth_cm"),
+  length("height_cm"),
+  { key: "shape", type: "enum", options: ["rectangular", "square", "round", "oval"] },
+  material("wood", "glass", "marble", "metal"),
+  WEIGHT_FIELD,
+];
+
+const CHAIR_FIELDS: AttributeField[] = [
+  length("width_cm"),
+  length("depth_cm"),
+  length("height_cm"),
+  material("wood", "metal", "plastic", "fabric", "leather", "rattan"),
+  WEIGHT_FIELD,
+];
+
+const LIGHTING_FIELDS: AttributeField[] = [
+  length("height_cm"),
+  length("diameter_cm"),
+  material("metal", "glass", "fabric", "ceramic", "rattan"),
+];
+
+const CATEGORY_FIELDS: Record<string, AttributeField[]> = {
+  bed: [length("width_cm"), length("length_cm"), material("wood", "metal", "upholstered")],
+  mattresses: [
+    length("width_cm"),
+    length("length_cm"),
+    length("thickness_cm", 100),
+    { key: "firmness", type: "enum", options: ["soft", "medium", "firm"] },
+  ],
+  carpet: [length("width_cm"), length("length_cm"), material("wool", "cotton", "silk", "synthetic")],
+  "sofa": SOFA_FIELDS,
+  "2-seater-sofa": SOFA_FIELDS,
+  "l-shape-sofa": SOFA_FIELDS,
+  "chaise-lounge": SOFA_FIELDS,
+  "chair": CHAIR_FIELDS,
+  "office-chair": CHAIR_FIELDS,
+  "service-table": TABLE_FIELDS,
+  "center-table": TABLE_FIELDS,
+  "side-table": TABLE_FIELDS,
+  "console": TABLE_FIELDS,
+  "dressing-table": TABLE_FIELDS,
+  "tv-table": TABLE_FIELDS,
+  "dining-table": TABLE_FIELDS,
+  "office-table": TABLE_FIELDS,
+  "lighting": LIGHTING_FIELDS,
+  "lampshade": LIGHTING_FIELDS,
+  "floor-stand": LIGHTING_FIELDS,
+  "wall-lighting": LIGHTING_FIELDS,
+  "outdoor-lighting": LIGHTING_FIELDS,
+  "chandelier": LIGHTING_FIELDS,
+  "pendant-lighting": LIGHTING_FIELDS,
+};
+
+// Misspellings and old key names, renamed when attributes are read
+const KEY_ALIASES: Record<string, string> = {
+  colour: "color",
+  title: "name",
+};
+
+export function attributeFields(category: string): AttributeField[] {
+  return [...(CATEGORY_FIELDS[category] ?? []), ...COMMON_FIELDS];
+}
+
+// Converted values are rounded rather than kept exact, which would store
+// floating point noise such as 0.30000000000000004 cm for 3 mm. Six
+// decimals keep every entry in the supported units exact after converting
+// back (1 g is 0.001 kg, 1 lb is 0.453592 kg); four are shown.
+const STORED_DECIMALS = 6;
+const DISPLAYED_DECIMALS = 4;
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Convert a value entered in `unit` to the quantity's base unit for storage
+ */
+export function toBaseUnit(value: number, quantity: Quantity, unit: Unit): number {
+  return roundTo(value * (UNITS[quantity][unit] ?? 1), STORED_DECIMALS);
+}
+
+/**
+ * Convert a stored base unit value to `unit` for display
+ */
+export function fromBaseUnit(value: number, quantity: Quantity, unit: Unit): number {
+  return roundTo(value / (UNITS[quantity][unit] ?? 1), DISPLAYED_DECIMALS);
+}
+
+/**
+ * Rename aliased keys (e.g. "colour") to the schema's
+ */
+export function normalizeAttributeKeys(attributes: Record<string, unknown>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    const canonical = KEY_ALIASES[key.toLowerCase()] ?? key;
+    if (!(canonical in normalized) || canonical === key) normalized[canonical] = value;
+  }
+  return normalized;
+}
+
+/**
+ * Read a text value (e.g. a CSV cell) as the type the category's schema
+ * expects; numbers that do not parse stay text so validation reports them
+ */
+export function parseAttributeValue(category: string, key: string, text: string): unknown {
+  const field = attributeFields(category).find((candidate) => candidate.key === key);
+  if (field?.type !== "measure" && field?.type !== "number") return text;
+  const value = Number(text);
+  return text.trim() !== "" && Number.isFinite(value) ? value : text;
+}
+
+export type AttributeIssueCode =
+  | "notNumber"
+  | "notInteger"
+  | "notPositive"
+  | "tooSmall"
+  | "tooLarge"
+  | "notOption"
+  | "notText";
+
+/** Translated in the UI as `attributes.issue.<code>` */
+export interface AttributeIssue {
+  code: AttributeIssueCode;
+  params?: TranslationParams;
+}
+
+/**
+ * Check the schema's attributes for a category; keys outside the schema
+ * are not checked. Returns issues keyed by attribute.
+ */
+export function validateAttributes(
+  category: string,
+  attributes: Record<string, unknown>
+): Record<string, AttributeIssue> {
+  const issues: Record<string, AttributeIssue> = {};
+  for (const field of attributeFields(category)) {
+    const value = attributes[field.key];
+    if (value === undefined || value === null || value === "") continue;
+    const issue = checkField(field, value);
+    if (issue) issues[field.key] = issue;
+  }
+  return issues;
+}
+
+function checkField(field: AttributeField, value: unknown): AttributeIssue | null {
+  switch (field.type) {
+    case "measure":
+      if (typeof value !== "number" || !Number.isFinite(value)) return { code: "notNumber" };
+      if (value <= 0) return { code: "notPositive" };
+      return value > field.max
+        ? { code: "tooLarge", params: { max: field.max, unit: BASE_UNITS[field.quantity] } }
+        : null;
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return { code: "notNumber" };
+      if (field.integer && !Number.isInteger(value)) return { code: "notInteger" };
+      if (value < field.min) return { code: "tooSmall", params: { min: field.min } };
+      return field.max !== undefined && value > field.max
+        ? { code: "tooLarge", params: { max: field.max, unit: "" } }
+        : null;
+    case "enum":
+      return field.options.some((option) => option === value) ? null : { code: "notOption" };
+    case "currency":
+      return typeof value === "string" && DISPLAY_CURRENCIES.includes(value) ? null : { code: "notOption" };
+    case "text":
+      return typeof value === "string" ? null : { code: "notText" };
+  }
+}
+
+/**
+ * The attribute editor's state: the attributes, and the JSON view's text
+ * as typed, which may not parse while it is being edited
+ */
+export interface AttributeDraft {
+  attributes: Record<string, unknown>;
+  json: string;
+  /** Set while `json` is not a JSON object; `attributes` keeps the last valid value */
+  jsonInvalid: boolean;
+}
+
+export const EMPTY_ATTRIBUTE_DRAFT: AttributeDraft = { attributes: {}, json: "", jsonInvalid: false };
+
+export function draftFromAttributes(attributes: Record<string, unknown>): AttributeDraft {
+  const normalized = normalizeAttributeKeys(attributes);
+  return {
+    attributes: normalized,
+    json: Object.keys(normalized).length > 0 ? JSON.stringify(normalized, null, 2) : "",
+    jsonInvalid: false,
+  };
+}
+
+export function draftFromJson(json: string, previous: AttributeDraft): AttributeDraft {
+  if (!json.trim()) return { attributes: {}, json, jsonInvalid: false };
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+      return { attributes: normalizeAttributeKeys(parsed as Record<string, unknown>), json, jsonInvalid: false };
+    }
+  } catch {
+    // Fall through: keep the last valid attributes
+  }
+  return { attributes: previous.attributes, json, jsonInvalid: true };
+}
+
+/**
+ * Attributes to send with an upsert: empty values dropped, undefined if
+ * nothing is left
+ */
+export function draftAttributes(draft: AttributeDraft): Record<string, unknown> | undefined {
+  const entries = Object.entries(draft.attributes).filter(
+    ([, value]) => value !== undefined && value !== null && value !== ""
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
@@ -0,0 +1,125 @@
+/**
+ * Server-side forwarding of /api/v1 requests to the FastAPI backend.
+ *
+ * Used by the route handlers under app/api/v1 so the browser never talks to
+ * the backend directly. The backend URL is read at runtime from
+ * BACKEND_API_URL, so it can change without rebuilding the frontend.
+ */
+
+import { PROXY_ERROR_HEADER, ProxyErrorCode } from "./api";
+import { MAX_UPLOAD_SIZE_BYTES } from "./imageUtils";
+
+const BACKEND_API_URL =
+  process.env.BACKEND_API_URL || process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
+
+// Multipart boundaries and the text fields sent next to the image; saved
+// searches carry up to MAX_TOP_K hits and a thumbnail
+const MULTIPART_OVERHEAD_BYTES = 512 * 1024;
+const MAX_BODY_BYTES = MAX_UPLOAD_SIZE_BYTES + MULTIPART_OVERHEAD_BYTES;
+
+// Longest backend call (detect-and-segment) plus some headroom
+const BACKEND_TIMEOUT_MS = 120_000;
+
+function proxyError(status: number, code: ProxyErrorCode, detail: string): Response {
+  return Response.json({ detail }, { status, headers: { [PROXY_ERROR_HEADER]: code } });
+}
+
+class BodyTooLargeError extends Error {}
+
+/**
+ * Read the request body, giving up as soon as it exceeds the size limit.
+ */
+async function readLimitedBody(request: Request): Promise<ArrayBuffer | null> {
+  const declaredLength = Number(request.headers.get("content-length") ?? 0);
+  if (declaredLength > MAX_BODY_BYTES) {
+    throw new BodyTooLargeError();
+  }
+  if (!request.body) return null;
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > MAX_BODY_BYTES) {
+      await reader.cancel();
+      throw new BodyTooLargeError();
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body.buffer;
+}
+
+/**
+ * Forward the incoming request to the same path on the backend and relay
+ * the response. Multipart bodies are passed through unchanged.
+ */
+export async function proxyToBackend(request: Request, backendPath: string): Promise<Response> {
+  let body: ArrayBuffer | null = null;
+  if (request.method !== "GET" && request.method !== "HEAD") {
+    try {
+      body = await readLimitedBody(request);
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        return proxyError(
+          413,
+          "body-too-large",
+          `Request body exceeds the ${MAX_UPLOAD_SIZE_BYTES / (1024 * 1024)}MB upload limit`
+        );
+      }
+      throw error;
+    }
+  }
+
+  const headers = new Headers();
+  const contentType = request.headers.get("content-type");
+  if (contentType) {
+    headers.set("content-type", contentType);
+  }
+  headers.set("accept", request.headers.get("accept") ?? "application/json");
+
+  const url = new URL(request.url);
+  const target = `${BACKEND_API_URL}${backendPath}${url.search}`;
+  const timeoutSignal = AbortSignal.timeout(BACKEND_TIMEOUT_MS);
+
+  let backendResponse: Response;
+  try {
+    backendResponse = await fetch(target, {
+      method: request.method,
+      headers,
+      body,
+      // Stop the backend call when the browser cancels or the timeout fires
+      signal: AbortSignal.any([request.signal, timeoutSignal]),
+      cache: "no-store",
+    });
+  } catch {
+    if (timeoutSignal.aborted) {
+      return proxyError(504, "backend-timeout", "The backend did not respond in time");
+    }
+    if (request.signal.aborted) {
+      // Client is gone; the status is never seen
+      return new Response(null, { status: 499 });
+    }
+    return proxyError(502, "backend-unreachable", "Unable to reach the backend service");
+  }
+
+  const responseHeaders = new Headers();
+  const responseType = backendResponse.headers.get("content-type");
+  if (responseType) {
+    responseHeaders.set("content-type", responseType);
+  }
+
+  return new Response(backendResponse.body, {
+    status: backendResponse.status,
+    headers: responseHeaders,
+  });
+}
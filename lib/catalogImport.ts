@@ -0,0 +1,302 @@
+/**
+ * Bulk catalog import: parse a CSV or JSON manifest, match its rows to
+ * the dropped image files and check both against the catalog rules
+ * before anything is uploaded.
+ *
+ * A manifest row has sku_id, category, image (a file name, matched
+ * case-insensitively and ignoring folders) and optional attributes as a
+ * JSON object. In CSV, any other non-empty column is added to the
+ * attributes as a string, or a number where the category's attribute
+ * schema expects one.
+ */
+
+import { normalizeAttributeKeys, parseAttributeValue, validateAttributes } from "./attributeSchemas";
+import { CATEGORIES } from "./categories";
+import { runWithConcurrency } from "./concurrency";
+import { parseCsv } from "./csv";
+import { getImageDimensions, MAX_UPLOAD_SIZE_BYTES, MAX_UPLOAD_SIZE_MB, MIN_IMAGE_DIMENSION } from "./imageUtils";
+import type { TranslationParams } from "./i18n";
+
+// Image checks decode each file, so only a few run at once
+const VALIDATION_CONCURRENCY = 4;
+
+const IMAGE_COLUMNS = ["image", "image_filename", "filename"];
+const ATTRIBUTE_COLUMNS = ["attributes", "attributes_json"];
+const KNOWN_COLUMNS = ["sku_id", "category", ...IMAGE_COLUMNS, ...ATTRIBUTE_COLUMNS];
+
+export type ImportIssueCode =
+  | "missingSku"
+  | "duplicateSku"
+  | "missingCategory"
+  | "unknownCategory"
+  | "missingImage"
+  | "imageNotFound"
+  | "invalidAttributes"
+  | "invalidAttributeValue"
+  | "notImage"
+  | "imageTooLarge"
+  | "imageTooSmall"
+  | "imageUnreadable";
+
+/** Translated in the UI as `catalogImport.issue.<code>` */
+export interface ImportIssue {
+  code: ImportIssueCode;
+  params?: TranslationParams;
+}
+
+export interface ManifestRow {
+  /** 1-based position among the manifest's data rows */
+  row: number;
+  skuId: string;
+  category: string;
+  imageName: string;
+  attributes?: Record<string, unknown>;
+  /** Problems found while reading the row itself */
+  issues: ImportIssue[];
+}
+
+export interface ImportRow extends ManifestRow {
+  image: File | null;
+}
+
+/** Translated in the UI as `catalogImport.manifest.<code>` */
+export type ManifestErrorCode = "empty" | "missingColumns" | "invalidJson" | "notArray";
+
+export class ManifestError extends Error {
+  constructor(
+    public code: ManifestErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "ManifestError";
+  }
+}
+
+export function isManifestFile(file: File): boolean {
+  return /\.(csv|json)$/i.test(file.name);
+}
+
+/**
+ * Read a manifest file; throws ManifestError if it cannot be read at all
+ */
+export async function parseManifest(file: File): Promise<ManifestRow[]> {
+  const text = await file.text();
+  const rows = /\.json$/i.test(file.name) ? parseJsonManifest(text) : parseCsvManifest(text);
+  if (rows.length === 0) throw new ManifestError("empty", "The manifest has no rows");
+  return rows;
+}
+
+function parseCsvManifest(text: string): ManifestRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const hasImageColumn = IMAGE_COLUMNS.some((column) => columns.includes(column));
+  if (!columns.includes("sku_id") || !columns.includes("category") || !hasImageColumn) {
+    throw new ManifestError("missingColumns", "The CSV header must include sku_id, category and image columns");
+  }
+
+  return records.map((record, index) => {
+    const values: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      values[column] = record[i]?.trim() ?? "";
+    });
+
+    const issues: ImportIssue[] = [];
+    let attributes: Record<string, unknown> | undefined;
+    const attributesJson = ATTRIBUTE_COLUMNS.map((column) => values[column]).find(Boolean);
+    if (attributesJson) {
+      attributes = parseAttributes(attributesJson);
+      if (!attributes) issues.push({ code: "invalidAttributes" });
+    }
+    for (const column of columns) {
+      if (!KNOWN_COLUMNS.includes(column) && values[column]) {
+        const category = (values.category ?? "").toLowerCase();
+        attributes = { ...attributes, [column]: parseAttributeValue(category, column, values[column]) };
+      }
+    }
+
+    return {
+      row: index + 1,
+      skuId: values.sku_id ?? "",
+      category: values.category ?? "",
+      imageName: IMAGE_COLUMNS.map((column) => values[column]).find(Boolean) ?? "",
+      attributes,
+      issues,
+    };
+  });
+}
+
+/**
+ * Accepts an array of rows or an object with an `items` array
+ */
+function parseJsonManifest(text: string): ManifestRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ManifestError("invalidJson", "The manifest is not valid JSON");
+  }
+  const items = Array.isArray(parsed)
+    ? parsed
+    : isRecord(parsed) && Array.isArray(parsed.items)
+      ? parsed.items
+      : null;
+  if (!items) throw new ManifestError("notArray", "The JSON manifest must be an array of rows");
+
+  return items.map((item: unknown, index) => {
+    const record = isRecord(item) ? item : {};
+    const issues: ImportIssue[] = [];
+    let attributes: Record<string, unknown> | undefined;
+    const rawAttributes = record.attributes ?? record.attributes_json;
+    if (rawAttributes !== undefined && rawAttributes !== null) {
+      attributes =
+        typeof rawAttributes === "string"
+          ? parseAttributes(rawAttributes)
+          : isRecord(rawAttributes)
+            ? rawAttributes
+            : undefined;
+      if (!attributes) issues.push({ code: "invalidAttributes" });
+    }
+
+    return {
+      row: index + 1,
+      skuId: stringField(record.sku_id),
+      category: stringField(record.category),
+      imageName: stringField(IMAGE_COLUMNS.map((key) => record[key]).find((value) => value != null)),
+      attributes,
+      issues,
+    };
+  });
+}
+
+/**
+ * Match rows to images and apply the catalog rules: required fields, unique
+ * SKUs, known categories, the category's attribute schema, and the upload
+ * type, size and dimension limits
+ */
+export async function validateImportRows(rows: ManifestRow[], images: File[]): Promise<ImportRow[]> {
+  const imagesByName = new Map(images.map((file) => [imageKey(file.name), file]));
+  const firstRowBySku = new Map<string, number>();
+  const imageIssues = new Map<File, ImportIssue | null>();
+
+  const result = rows.map((manifestRow): ImportRow => {
+    const issues = [...manifestRow.issues];
+    const category = manifestRow.category.toLowerCase();
+
+    if (!manifestRow.skuId) {
+      issues.push({ code: "missingSku" });
+    } else if (firstRowBySku.has(manifestRow.skuId)) {
+      issues.push({ code: "duplicateSku", params: { row: firstRowBySku.get(manifestRow.skuId)! } });
+    } else {
+      firstRowBySku.set(manifestRow.skuId, manifestRow.row);
+    }
+
+    if (!category) {
+      issues.push({ code: "missingCategory" });
+    } else if (!CATEGORIES.includes(category)) {
+      issues.push({ code: "unknownCategory", params: { category: manifestRow.category } });
+    }
+
+    const attributes = manifestRow.attributes && normalizeAttributeKeys(manifestRow.attributes);
+    if (attributes) {
+      for (const attribute of Object.keys(validateAttributes(category, attributes))) {
+        issues.push({ code: "invalidAttributeValue", params: { attribute } });
+      }
+    }
+
+    const image = manifestRow.imageName ? imagesByName.get(imageKey(manifestRow.imageName)) ?? null : null;
+    if (!manifestRow.imageName) {
+      issues.push({ code: "missingImage" });
+    } else if (!image) {
+      issues.push({ code: "imageNotFound", params: { image: manifestRow.imageName } });
+    } else {
+      imageIssues.set(image, null);
+    }
+
+    return { ...manifestRow, category, attributes, image, issues };
+  });
+
+  // Several rows may share an image; check each file once
+  await runWithConcurrency([...imageIssues.keys()], VALIDATION_CONCURRENCY, async (file) => {
+    imageIssues.set(file, await checkImage(file));
+  });
+
+  return result.map((row) => {
+    const issue = row.image ? imageIssues.get(row.image) : null;
+    return issue ? { ...row, issues: [...row.issues, issue] } : row;
+  });
+}
+
+async function checkImage(file: File): Promise<ImportIssue | null> {
+  if (!file.type.startsWith("image/")) return { code: "notImage" };
+  if (file.size > MAX_UPLOAD_SIZE_BYTES) return { code: "imageTooLarge", params: { max: MAX_UPLOAD_SIZE_MB } };
+  try {
+    const { width, height } = await getImageDimensions(file);
+    if (width < MIN_IMAGE_DIMENSION || height < MIN_IMAGE_DIMENSION) {
+      return { code: "imageTooSmall", params: { width, height, min: MIN_IMAGE_DIMENSION } };
+    }
+    return null;
+  } catch {
+    return { code: "imageUnreadable" };
+  }
+}
+
+/**
+ * Every file in a drop, descending into dropped folders
+ */
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    files.push(...(await readEntry(entry)));
+  }
+  return files;
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise((resolve) => {
+      (entry as FileSystemFileEntry).file(
+        (file) => resolve([file]),
+        () => resolve([])
+      );
+    });
+  }
+  if (!entry.isDirectory) return [];
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // readEntries returns the directory in batches until an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve) => reader.readEntries(resolve, () => resolve([])));
+    if (batch.length === 0) return files;
+    for (const child of batch) {
+      files.push(...(await readEntry(child)));
+    }
+  }
+}
+
+function imageKey(name: string): string {
+  return (name.split(/[\\/]/).pop() ?? name).trim().toLowerCase();
+}
+
+function parseAttributes(json: string): Record<string, unknown> | undefined {
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return isRecord(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function stringField(value: unknown): string {
+  return typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
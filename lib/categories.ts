@@ -0,0 +1,78 @@
+/**
+ * Product categories known to the backend detector and catalog
+ */
+
+import type { Locale } from "./i18n";
+
+export const CATEGORIES = [
+  "chair", "2-seater-sofa", "l-shape-sofa", "sofa",
+  "bed", "bedspread", "pillow", "mattresses",
+  "service-table", "center-table", "side-table", "console",
+  "dressing-table", "comforter", "tv-table", "dining-table",
+  "storage-box", "carpet", "flower-pot-and-plant", "statue-and-antique",
+  "laundry-basket", "candle", "vase", "flower",
+  "wall-clock", "shelve", "decorative-hanger", "lighting",
+  "lampshade", "floor-stand", "wall-lighting", "outdoor-lighting",
+  "chandelier", "pendant-lighting", "coffee-maker", "cooking-appliance",
+  "food-processor", "cooking-pot", "serving-utensil-and-tray",
+  "cup", "plate", "chaise-lounge", "art-canvas", "office-table", "office-chair"
+];
+
+const ARABIC_CATEGORY_LABELS: Record<string, string> = {
+  "chair": "كرسي",
+  "2-seater-sofa": "كنبة بمقعدين",
+  "l-shape-sofa": "كنبة على شكل L",
+  "sofa": "كنبة",
+  "bed": "سرير",
+  "bedspread": "مفرش سرير",
+  "pillow": "وسادة",
+  "mattresses": "مراتب",
+  "service-table": "طاولة تقديم",
+  "center-table": "طاولة وسط",
+  "side-table": "طاولة جانبية",
+  "console": "كونسول",
+  "dressing-table": "تسريحة",
+  "comforter": "لحاف",
+  "tv-table": "طاولة تلفاز",
+  "dining-table": "طاولة طعام",
+  "storage-box": "صندوق تخزين",
+  "carpet": "سجادة",
+  "flower-pot-and-plant": "أصيص ونبتة",
+  "statue-and-antique": "تماثيل وتحف",
+  "laundry-basket": "سلة غسيل",
+  "candle": "شمعة",
+  "vase": "مزهرية",
+  "flower": "زهور",
+  "wall-clock": "ساعة حائط",
+  "shelve": "رف",
+  "decorative-hanger": "علاقة ديكور",
+  "lighting": "إضاءة",
+  "lampshade": "غطاء مصباح",
+  "floor-stand": "مصباح أرضي",
+  "wall-lighting": "إضاءة جدارية",
+  "outdoor-lighting": "إضاءة خارجية",
+  "chandelier": "ثريا",
+  "pendant-lighting": "إضاءة معلقة",
+  "coffee-maker": "صانعة قهوة",
+  "cooking-appliance": "جهاز طهي",
+  "food-processor": "محضرة طعام",
+  "cooking-pot": "قدر طهي",
+  "serving-utensil-and-tray": "أدوات وصواني تقديم",
+  "cup": "كوب",
+  "plate": "طبق",
+  "chaise-lounge": "أريكة استرخاء",
+  "art-canvas": "لوحة فنية",
+  "office-table": "مكتب",
+  "office-chair": "كرسي مكتب",
+};
+
+/**
+ * Display label for a category slug, e.g. "center-table" -> "Center table"
+ */
+export function categoryLabel(slug: string, locale: Locale): string {
+  if (locale === "ar" && ARABIC_CATEGORY_LABELS[slug]) {
+    return ARABIC_CATEGORY_LABELS[slug];
+  }
+  const words = slug.replace(/-/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,23 @@
+/**
+ * Run `worker` over every item with at most `limit` calls in flight.
+ * Items are started in order; stops picking up new items once `signal`
+ * is aborted. The worker is responsible for handling its own errors.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  const runnerCount = Math.max(1, Math.min(limit, items.length));
+
+  const runners = Array.from({ length: runnerCount }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+}
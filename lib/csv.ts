@@ -0,0 +1,91 @@
+/**
+ * CSV building and parsing, and browser downloads for exports.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Byte order mark, so spreadsheet apps read Arabic text as UTF-8
+const UTF8_BOM = "\uFEFF";
+
+// Leading characters spreadsheet apps treat as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a field if it contains a delimiter, quote or line break. Text that
+ * would be read as a formula is prefixed with an apostrophe.
+ */
+export function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV with CRLF line endings and a UTF-8 BOM
+ */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  const lines = [header, ...rows].map((row) => row.map(csvField).join(","));
+  return UTF8_BOM + lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Save text as a file through a temporary object URL
+ */
+export function downloadFile(content: string | Blob, fileName: string, type: string): void {
+  const blob = typeof content === "string" ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Parse RFC 4180 CSV into rows of fields. Accepts CRLF or LF line
+ * endings and a leading BOM; blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
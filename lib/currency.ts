@@ -0,0 +1,119 @@
+/**
+ * Currency conversion and price formatting.
+ *
+ * Catalog prices come in mixed currencies (SAR, AED, USD, ...). They are
+ * normalised to BASE_CURRENCY for sorting and filtering, and converted to
+ * the user's display currency for presentation.
+ *
+ * Rates are a local table, not live data. Override or extend it with
+ * NEXT_PUBLIC_EXCHANGE_RATES, a JSON object of currency -> SAR per unit,
+ * e.g. {"USD": 3.76}.
+ */
+
+import type { SearchHit } from "./api";
+
+/** Currency prices are normalised to, and assumed when price_unit is missing */
+export const BASE_CURRENCY = "SAR";
+
+// Value of one unit of each currency in BASE_CURRENCY
+const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  SAR: 1,
+  AED: 1.021,
+  USD: 3.75,
+  EUR: 4.05,
+  GBP: 4.75,
+  KWD: 12.2,
+  QAR: 1.03,
+  BHD: 9.95,
+  OMR: 9.74,
+};
+
+function loadExchangeRates(): Record<string, number> {
+  const overrides = process.env.NEXT_PUBLIC_EXCHANGE_RATES;
+  if (!overrides) return DEFAULT_EXCHANGE_RATES;
+  try {
+    const parsed = JSON.parse(overrides) as Record<string, unknown>;
+    const valid = Object.entries(parsed).filter(
+      (entry): entry is [string, number] => typeof entry[1] === "number" && entry[1] > 0
+    );
+    return {
+      ...DEFAULT_EXCHANGE_RATES,
+      ...Object.fromEntries(valid.map(([code, rate]) => [code.toUpperCase(), rate])),
+    };
+  } catch {
+    // Invalid overrides are ignored
+    return DEFAULT_EXCHANGE_RATES;
+  }
+}
+
+export const EXCHANGE_RATES = loadExchangeRates();
+
+/** Currencies offered in the display-currency setting */
+export const DISPLAY_CURRENCIES = Object.keys(EXCHANGE_RATES);
+
+/**
+ * Convert between two currencies in the rate table. Returns null if
+ * either currency is unknown.
+ */
+export function convertPrice(amount: number, from: string, to: string): number | null {
+  const fromRate = EXCHANGE_RATES[from.toUpperCase()];
+  const toRate = EXCHANGE_RATES[to.toUpperCase()];
+  if (fromRate === undefined || toRate === undefined) return null;
+  return (amount * fromRate) / toRate;
+}
+
+/**
+ * Hit price in BASE_CURRENCY, or null if the hit has no price or an
+ * unknown currency.
+ */
+export function normalizedPrice(hit: Pick<SearchHit, "price_amount" | "price_unit">): number | null {
+  if (hit.price_amount == null) return null;
+  return convertPrice(hit.price_amount, hit.price_unit || BASE_CURRENCY, BASE_CURRENCY);
+}
+
+export function formatPrice(amount: number, currency: string, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  } catch {
+    // Not an ISO 4217 code Intl knows about
+    return `${amount.toLocaleString(locale, { maximumFractionDigits: 2 })} ${currency}`;
+  }
+}
+
+/**
+ * Hit price converted to the display currency. Prices in currencies
+ * missing from the rate table are shown as-is.
+ */
+export function formatHitPrice(
+  hit: Pick<SearchHit, "price_amount" | "price_unit">,
+  displayCurrency: string,
+  locale?: string
+): string | null {
+  if (hit.price_amount == null) return null;
+  const sourceCurrency = hit.price_unit || BASE_CURRENCY;
+  const converted = convertPrice(hit.price_amount, sourceCurrency, displayCurrency);
+  return converted === null
+    ? formatPrice(hit.price_amount, sourceCurrency, locale)
+    : formatPrice(converted, displayCurrency, locale);
+}
+
+/**
+ * Original price, for showing alongside a converted one. Null when no
+ * conversion happened.
+ */
+export function formatOriginalPrice(
+  hit: Pick<SearchHit, "price_amount" | "price_unit">,
+  displayCurrency: string,
+  locale?: string
+): string | null {
+  if (hit.price_amount == null) return null;
+  const sourceCurrency = hit.price_unit || BASE_CURRENCY;
+  if (sourceCurrency.toUpperCase() === displayCurrency.toUpperCase()) return null;
+  if (convertPrice(hit.price_amount, sourceCurrency, displayCurrency) === null) return null;
+  return formatPrice(hit.price_amount, sourceCurrency, locale);
+}
@@ -0,0 +1,109 @@
+/**
+ * IndexedDB cache of detection + segmentation results, keyed by the
+ * SHA-256 of the processed image bytes so re-uploading the same photo
+ * skips the slow /detect-and-segment call.
+ *
+ * Entries are evicted least-recently-used once the cache grows past
+ * MAX_CACHE_BYTES or MAX_CACHE_ENTRIES. All functions fail soft: if
+ * IndexedDB is unavailable the cache simply misses.
+ */
+
+import type { DetectionSegmentationResponse } from "./api";
+import { isIndexedDbAvailable, promisifyRequest, STORES, withStore } from "./idb";
+
+// Masks are full-resolution PNGs, so a single entry can be a few MB
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 30;
+
+interface CachedDetection {
+  hash: string;
+  response: DetectionSegmentationResponse;
+  /** Approximate size of the serialized response in bytes */
+  size: number;
+  createdAt: number;
+  lastAccessed: number;
+}
+
+/**
+ * SHA-256 of the file contents as a hex string
+ */
+export async function hashImage(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function getCachedDetection(
+  hash: string
+): Promise<DetectionSegmentationResponse | null> {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    return await withStore(STORES.detections, "readwrite", async (store) => {
+      const entry = await promisifyRequest<CachedDetection | undefined>(store.get(hash));
+      if (!entry) return null;
+      // Touch the entry so it counts as recently used
+      store.put({ ...entry, lastAccessed: Date.now() });
+      return entry.response;
+    });
+  } catch {
+    return null;
+  }
+}
+
+export async function putCachedDetection(
+  hash: string,
+  response: DetectionSegmentationResponse
+): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  const now = Date.now();
+  const entry: CachedDetection = {
+    hash,
+    response,
+    size: JSON.stringify(response).length,
+    createdAt: now,
+    lastAccessed: now,
+  };
+  // Never cache something that would evict everything else on its own
+  if (entry.size > MAX_CACHE_BYTES) return;
+
+  try {
+    await withStore(STORES.detections, "readwrite", async (store) => {
+      store.put(entry);
+      await evict(store);
+    });
+  } catch {
+    // Not cached; the next upload of this image runs detection again
+  }
+}
+
+/**
+ * Remove least-recently-used entries until the cache fits its limits.
+ * Walks index keys only, so the cached responses are never loaded.
+ */
+async function evict(store: IDBObjectStore): Promise<void> {
+  const entries = await new Promise<{ hash: IDBValidKey; size: number }[]>((resolve, reject) => {
+    const found: { hash: IDBValidKey; size: number }[] = [];
+    const cursorRequest = store.index("lastAccessedSize").openKeyCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve(found);
+        return;
+      }
+      found.push({ hash: cursor.primaryKey, size: (cursor.key as [number, number])[1] });
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+  let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  let count = entries.length;
+
+  // Index order is oldest access first
+  for (const entry of entries) {
+    if (totalBytes <= MAX_CACHE_BYTES && count <= MAX_CACHE_ENTRIES) break;
+    store.delete(entry.hash);
+    totalBytes -= entry.size;
+    count -= 1;
+  }
+}
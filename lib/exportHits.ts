@@ -0,0 +1,108 @@
+/**
+ * Search result exports: one flat record per hit with its rank, every
+ * SearchHit field and the query it came from, as CSV or JSON.
+ */
+
+import type { SearchHit } from "./api";
+import { CsvValue, toCsv } from "./csv";
+
+export type HitExportFormat = "csv" | "json";
+
+export interface HitExportContext {
+  category: string | null;
+  /** Results requested from the backend; null when not known */
+  topK: number | null;
+  /** When the search ran (ms since epoch) */
+  searchedAt: number;
+}
+
+interface HitExportRow {
+  rank: number;
+  score: number;
+  pinecone_id: string;
+  name_english: string | null;
+  name_arabic: string | null;
+  category: string | null;
+  price_amount: number | null;
+  price_unit: string | null;
+  store: string | null;
+  store_id: number | null;
+  countries: string[];
+  is_active: boolean | null;
+  image_url: string | null;
+  product_url: string | null;
+  query_category: string | null;
+  query_top_k: number | null;
+  query_timestamp: string;
+}
+
+const EXPORT_COLUMNS: (keyof HitExportRow)[] = [
+  "rank",
+  "score",
+  "pinecone_id",
+  "name_english",
+  "name_arabic",
+  "category",
+  "price_amount",
+  "price_unit",
+  "store",
+  "store_id",
+  "countries",
+  "is_active",
+  "image_url",
+  "product_url",
+  "query_category",
+  "query_top_k",
+  "query_timestamp",
+];
+
+/**
+ * Rank is the 1-based position in the list given, so an export matches
+ * the order on screen
+ */
+function toExportRows(hits: SearchHit[], context: HitExportContext): HitExportRow[] {
+  const timestamp = new Date(context.searchedAt).toISOString();
+  return hits.map((hit, index) => ({
+    rank: index + 1,
+    score: hit.score,
+    pinecone_id: hit.pinecone_id,
+    name_english: hit.name_english ?? null,
+    name_arabic: hit.name_arabic ?? null,
+    category: hit.category ?? null,
+    price_amount: hit.price_amount ?? null,
+    price_unit: hit.price_unit ?? null,
+    store: hit.store ?? null,
+    store_id: hit.store_id ?? null,
+    countries: Array.isArray(hit.countries) ? hit.countries.filter((code) => typeof code === "string") : [],
+    is_active: hit.is_active ?? null,
+    image_url: hit.image_url ?? null,
+    product_url: hit.product_url ?? null,
+    query_category: context.category,
+    query_top_k: context.topK,
+    query_timestamp: timestamp,
+  }));
+}
+
+/**
+ * CSV with countries joined by ";" inside a single field
+ */
+export function hitsToCsv(hits: SearchHit[], context: HitExportContext): string {
+  const rows = toExportRows(hits, context).map((row) =>
+    EXPORT_COLUMNS.map((column): CsvValue => {
+      const value = row[column];
+      return Array.isArray(value) ? value.join(";") : value;
+    })
+  );
+  return toCsv(EXPORT_COLUMNS, rows);
+}
+
+export function hitsToJson(hits: SearchHit[], context: HitExportContext): string {
+  return JSON.stringify(toExportRows(hits, context), null, 2);
+}
+
+export function exportHitsFile(hits: SearchHit[], context: HitExportContext, format: HitExportFormat) {
+  const date = new Date(context.searchedAt).toISOString().slice(0, 10);
+  return format === "csv"
+    ? { content: hitsToCsv(hits, context), fileName: `results-${date}.csv`, type: "text/csv;charset=utf-8" }
+    : { content: hitsToJson(hits, context), fileName: `results-${date}.json`, type: "application/json;charset=utf-8" };
+}
@@ -0,0 +1,180 @@
+/**
+ * Helpers for working with lists of search hits
+ */
+
+import type { SearchFilters, SearchHit } from "./api";
+import { normalizedPrice } from "./currency";
+
+// Hits requested per page; "load more" grows top_k by this much
+export const SEARCH_PAGE_SIZE = 20;
+// Upper bound for top_k when paging deeper into results
+export const MAX_TOP_K = 200;
+// Wait for the filters to settle before re-querying the backend with them
+export const FILTER_DEBOUNCE_MS = 400;
+
+/**
+ * Append hits that are not already shown, keeping the existing order so
+ * the list does not jump while the user is scrolled into it.
+ */
+export function mergeHits(existing: SearchHit[], incoming: SearchHit[]): SearchHit[] {
+  const seen = new Set(existing.map((hit) => hit.pinecone_id));
+  const merged = [...existing];
+  for (const hit of incoming) {
+    if (!seen.has(hit.pinecone_id)) {
+      seen.add(hit.pinecone_id);
+      merged.push(hit);
+    }
+  }
+  return merged;
+}
+
+export type SortOrder = "similarity" | "price-asc" | "price-desc" | "store";
+
+export const SORT_ORDERS: SortOrder[] = ["similarity", "price-asc", "price-desc", "store"];
+
+/**
+ * Sorted copy of the hits, comparing prices in BASE_CURRENCY. Ties fall
+ * back to similarity, and hits missing the sort field (no price, no
+ * store) always go last.
+ */
+export function sortHits(hits: SearchHit[], order: SortOrder): SearchHit[] {
+  const byScore = (a: SearchHit, b: SearchHit) => b.score - a.score;
+
+  const compare = (a: SearchHit, b: SearchHit): number => {
+    switch (order) {
+      case "price-asc":
+      case "price-desc": {
+        const priceA = normalizedPrice(a);
+        const priceB = normalizedPrice(b);
+        if (priceA == null || priceB == null) {
+          return (priceA == null ? 1 : 0) - (priceB == null ? 1 : 0) || byScore(a, b);
+        }
+        const diff = order === "price-asc" ? priceA - priceB : priceB - priceA;
+        return diff || byScore(a, b);
+      }
+      case "store": {
+        if (!a.store || !b.store) {
+          return (a.store ? 0 : 1) - (b.store ? 0 : 1) || byScore(a, b);
+        }
+        return a.store.localeCompare(b.store) || byScore(a, b);
+      }
+      default:
+        return byScore(a, b);
+    }
+  };
+
+  return [...hits].sort(compare);
+}
+
+/**
+ * The hit with the highest similarity score, regardless of display order
+ */
+export function topScoredHit(hits: SearchHit[]): SearchHit | null {
+  return hits.reduce<SearchHit | null>((best, hit) => (!best || hit.score > best.score ? hit : best), null);
+}
+
+export interface HitFilters {
+  /** Price bounds in BASE_CURRENCY */
+  priceMin: number | null;
+  priceMax: number | null;
+  /** Store names to keep; empty means all stores */
+  stores: string[];
+  /** Country codes to keep; empty means all countries */
+  countries: string[];
+  hideInactive: boolean;
+}
+
+export const EMPTY_FILTERS: HitFilters = {
+  priceMin: null,
+  priceMax: null,
+  stores: [],
+  countries: [],
+  hideInactive: false,
+};
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface HitFacets {
+  /** Price bounds in BASE_CURRENCY across hits that have a price, or null if none do */
+  priceRange: { min: number; max: number } | null;
+  stores: FacetValue[];
+  countries: FacetValue[];
+  inactiveCount: number;
+}
+
+export function hasActiveFilters(filters: HitFilters): boolean {
+  return (
+    filters.priceMin !== null ||
+    filters.priceMax !== null ||
+    filters.stores.length > 0 ||
+    filters.countries.length > 0 ||
+    filters.hideInactive
+  );
+}
+
+export function filterHits(hits: SearchHit[], filters: HitFilters): SearchHit[] {
+  if (!hasActiveFilters(filters)) return hits;
+
+  return hits.filter((hit) => {
+    if (filters.hideInactive && hit.is_active === false) return false;
+
+    const price = normalizedPrice(hit);
+    if (filters.priceMin !== null && (price == null || price < filters.priceMin)) return false;
+    if (filters.priceMax !== null && (price == null || price > filters.priceMax)) return false;
+
+    if (filters.stores.length > 0 && (!hit.store || !filters.stores.includes(hit.store))) {
+      return false;
+    }
+    if (
+      filters.countries.length > 0 &&
+      !(hit.countries ?? []).some((country) => filters.countries.includes(country))
+    ) {
+      return false;
+    }
+    return true;
+  });
+}
+
+function countValues(values: string[]): FacetValue[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  );
+}
+
+/**
+ * Facet values and counts for the filter panel, computed from the hits
+ */
+export function computeFacets(hits: SearchHit[]): HitFacets {
+  const prices = hits
+    .map((hit) => normalizedPrice(hit))
+    .filter((price): price is number => typeof price === "number");
+
+  return {
+    priceRange: prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : null,
+    stores: countValues(hits.map((hit) => hit.store).filter((store): store is string => !!store)),
+    countries: countValues(hits.flatMap((hit) => hit.countries ?? [])),
+    inactiveCount: hits.filter((hit) => hit.is_active === false).length,
+  };
+}
+
+/**
+ * Backend representation of the filters, or undefined when none are set
+ */
+export function toSearchFilters(filters: HitFilters): SearchFilters | undefined {
+  if (!hasActiveFilters(filters)) return undefined;
+
+  const result: SearchFilters = {};
+  if (filters.priceMin !== null) result.price_min = filters.priceMin;
+  if (filters.priceMax !== null) result.price_max = filters.priceMax;
+  if (filters.stores.length > 0) result.stores = filters.stores;
+  if (filters.countries.length > 0) result.countries = filters.countries;
+  if (filters.hideInactive) result.active_only = true;
+  return result;
+}
@@ -0,0 +1,94 @@
+/**
+ * Locale handling: message lookup with interpolation and plurals, text
+ * direction, and locale-aware number formatting.
+ *
+ * Messages live in lib/messages.ts. A key with plural forms is written as
+ * `key.one`, `key.other`, ... and looked up as `key` with a `count` param.
+ */
+
+import type { SearchHit } from "./api";
+import { AR_MESSAGES, EN_MESSAGES, MessageKey, Messages, PluralKey } from "./messages";
+
+export type Locale = "en" | "ar";
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "ar", label: "العربية" },
+];
+
+const MESSAGES: Record<Locale, Messages> = {
+  en: EN_MESSAGES,
+  ar: AR_MESSAGES,
+};
+
+// BCP 47 tags used for Intl formatting
+const LOCALE_TAGS: Record<Locale, string> = {
+  en: "en-US",
+  ar: "ar-SA",
+};
+
+export type TranslationKey = MessageKey | PluralKey;
+
+export type TranslationParams = Record<string, string | number>;
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((locale) => locale.value === value);
+}
+
+export function localeTag(locale: Locale): string {
+  return LOCALE_TAGS[locale];
+}
+
+export function textDirection(locale: Locale): "ltr" | "rtl" {
+  return locale === "ar" ? "rtl" : "ltr";
+}
+
+export function formatNumber(value: number, locale: Locale, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(localeTag(locale), options).format(value);
+}
+
+/**
+ * Look up a message and fill in `{name}` placeholders. Numeric params are
+ * formatted for the locale; a numeric `count` also selects the plural form.
+ * Falls back to English, then to the key itself.
+ */
+export function translate(locale: Locale, key: TranslationKey, params?: TranslationParams): string {
+  const messages: Partial<Record<string, string>> = MESSAGES[locale];
+  const fallback: Partial<Record<string, string>> = EN_MESSAGES;
+  let template: string | undefined;
+
+  if (typeof params?.count === "number") {
+    const rule = new Intl.PluralRules(localeTag(locale)).select(params.count);
+    template = messages[`${key}.${rule}`] ?? messages[`${key}.other`] ?? fallback[`${key}.other`];
+  }
+  template ??= messages[key] ?? fallback[key] ?? key;
+
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === "number" ? formatNumber(value, locale) : value;
+  });
+}
+
+/**
+ * Product name for the locale, falling back to the other language
+ */
+export function hitName(hit: Pick<SearchHit, "name_english" | "name_arabic" | "pinecone_id">, locale: Locale): string {
+  return locale === "ar"
+    ? hit.name_arabic || hit.name_english || hit.pinecone_id
+    : hit.name_english || hit.name_arabic || hit.pinecone_id;
+}
+
+/**
+ * Localised name for an ISO 3166 country code, e.g. "SA" -> "Saudi Arabia"
+ */
+export function countryName(code: string, locale: Locale): string {
+  try {
+    return new Intl.DisplayNames([localeTag(locale)], { type: "region" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
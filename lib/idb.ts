@@ -0,0 +1,94 @@
+/**
+ * Thin promise wrapper around the app's IndexedDB database.
+ *
+ * All object stores are declared here so the schema is upgraded in one
+ * place; bump DB_VERSION when adding a store.
+ */
+
+const DB_NAME = "interior-visual-search";
+const DB_VERSION = 5;
+
+export const STORES = {
+  /** Detection + segmentation responses keyed by image SHA-256 */
+  detections: "detections",
+  /** Saved searches served at /results/[id], keyed by short id */
+  searchSessions: "searchSessions",
+  /** Past uploads with their detections and searches, keyed by image SHA-256 */
+  searchHistory: "searchHistory",
+  /** Moodboard layouts, keyed by board id */
+  moodboards: "moodboards",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const detections = db.objectStoreNames.contains(STORES.detections)
+          ? request.transaction!.objectStore(STORES.detections)
+          : db.createObjectStore(STORES.detections, { keyPath: "hash" });
+        // Eviction reads access time and size from the index keys alone
+        if (detections.indexNames.contains("lastAccessed")) detections.deleteIndex("lastAccessed");
+        if (!detections.indexNames.contains("lastAccessedSize")) {
+          detections.createIndex("lastAccessedSize", ["lastAccessed", "size"]);
+        }
+        if (!db.objectStoreNames.contains(STORES.searchSessions)) {
+          const store = db.createObjectStore(STORES.searchSessions, { keyPath: "id" });
+          store.createIndex("createdAt", "createdAt");
+        }
+        if (!db.objectStoreNames.contains(STORES.searchHistory)) {
+          const store = db.createObjectStore(STORES.searchHistory, { keyPath: "id" });
+          store.createIndex("updatedAt", "updatedAt");
+        }
+        if (!db.objectStoreNames.contains(STORES.moodboards)) {
+          db.createObjectStore(STORES.moodboards, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run `fn` inside a transaction and resolve once the transaction commits.
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await fn(transaction.objectStore(storeName));
+  await done;
+  return result;
+}
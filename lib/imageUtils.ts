@@ -3,6 +3,16 @@
  * Optimizes images before uploading to backend
  */
 
+/**
+ * Maximum upload size (reduced for Vercel/serverless compatibility).
+ * Also enforced by the API proxy route handlers.
+ */
+export const MAX_UPLOAD_SIZE_MB = 10;
+export const MAX_UPLOAD_SIZE_BYTES = MAX_UPLOAD_SIZE_MB * 1024 * 1024;
+
+/** Smallest width and height accepted for detection and embeddings */
+export const MIN_IMAGE_DIMENSION = 400;
+
 /**
  * Resize and compress image before upload
  * @param file Original image file
@@ -94,6 +104,35 @@ export function getImageDimensions(file: File): Promise<{ width: number; height:
   });
 }
 
+/**
+ * Read a file into a data URL (e.g. for previews and thumbnails)
+ * @param file File to read
+ * @returns Data URL of the file contents
+ */
+export function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Download an image into a File, e.g. to upload it again. Fails for
+ * cross-origin URLs whose host does not allow CORS.
+ * @param url Image URL
+ * @param fileName Name for the resulting file
+ */
+export async function fetchImageFile(url: string, fileName: string): Promise<File> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Image request failed with status ${response.status}`);
+  }
+  const blob = await response.blob();
+  return new File([blob], fileName, { type: blob.type || "image/jpeg" });
+}
+
 /**
  * Validate image file before processing
  * @param file Image file to validate
@@ -106,16 +145,14 @@ export function validateImageFile(file: File): string | null {
   }
 
   // Check file size (10MB limit - reduced for Vercel/serverless compatibility)
-  const maxSizeMB = 10;
   const fileSizeMB = file.size / (1024 * 1024);
-  if (fileSizeMB > maxSizeMB) {
-    return `File too large (${fileSizeMB.toFixed(1)}MB). Maximum size is ${maxSizeMB}MB. Please compress or resize your image.`;
+  if (fileSizeMB > MAX_UPLOAD_SIZE_MB) {
+    return `File too large (${fileSizeMB.toFixed(1)}MB). Maximum size is ${MAX_UPLOAD_SIZE_MB}MB. Please compress or resize your image.`;
   }
   
   // Additional check: prevent extremely large files that could cause buffer issues
-  const maxSizeBytes = 10 * 1024 * 1024; // 10MB in bytes
-  if (file.size > maxSizeBytes) {
-    return `File size exceeds ${maxSizeMB}MB limit. Please use a smaller image.`;
+  if (file.size > MAX_UPLOAD_SIZE_BYTES) {
+    return `File size exceeds ${MAX_UPLOAD_SIZE_MB}MB limit. Please use a smaller image.`;
   }
 
   return null;
@@ -130,9 +167,8 @@ export async function validateImageDimensions(file: File): Promise<string | null
   try {
     const { width, height } = await getImageDimensions(file);
 
-    const minDimension = 400;
-    if (width < minDimension || height < minDimension) {
-      return `Image too small (${width}×${height}px). Minimum ${minDimension}×${minDimension}px required for quality detection and embeddings.`;
+    if (width < MIN_IMAGE_DIMENSION || height < MIN_IMAGE_DIMENSION) {
+      return `Image too small (${width}×${height}px). Minimum ${MIN_IMAGE_DIMENSION}×${MIN_IMAGE_DIMENSION}px required for quality detection and embeddings.`;
     }
 
     return null;
@@ -151,3 +187,160 @@ export function calculateReduction(originalSize: number, newSize: number): numbe
   return Math.round(((originalSize - newSize) / originalSize) * 100);
 }
 
+
+/**
+ * How the search query image is built from a selected object:
+ * - crop:   the object's bounding box
+ * - masked: the object cut out by its segmentation mask on a neutral background
+ * - full:   the whole room image (backend locates the object)
+ */
+export type QueryImageMode = "crop" | "masked" | "full";
+
+export const QUERY_IMAGE_MODES: QueryImageMode[] = ["crop", "masked", "full"];
+
+// Neutral background behind masked cut-outs
+const MASK_BACKGROUND = '#F5F5F5';
+// Extra context kept around a crop, as a fraction of the box size
+const CROP_PADDING = 0.05;
+
+interface Region {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+}
+
+function canvasToFile(canvas: HTMLCanvasElement, name: string, quality: number = 0.92): Promise<File> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error('Image conversion failed'));
+          return;
+        }
+        resolve(new File([blob], name, { type: 'image/jpeg', lastModified: Date.now() }));
+      },
+      'image/jpeg',
+      quality
+    );
+  });
+}
+
+/**
+ * Clamp a padded region to the image bounds, in whole pixels
+ */
+function paddedRegion(region: Region, width: number, height: number): Region {
+  const padX = (region.x2 - region.x1) * CROP_PADDING;
+  const padY = (region.y2 - region.y1) * CROP_PADDING;
+  return {
+    x1: Math.max(0, Math.floor(region.x1 - padX)),
+    y1: Math.max(0, Math.floor(region.y1 - padY)),
+    x2: Math.min(width, Math.ceil(region.x2 + padX)),
+    y2: Math.min(height, Math.ceil(region.y2 + padY)),
+  };
+}
+
+/**
+ * Crop an image to a region (in original image pixels), with a small margin
+ * @param file Source image file
+ * @param region Bounding box to keep
+ * @returns Cropped JPEG file
+ */
+export async function cropImage(file: File, region: Region): Promise<File> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const box = paddedRegion(region, img.width, img.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, box.x2 - box.x1);
+    canvas.height = Math.max(1, box.y2 - box.y1);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context not available');
+
+    ctx.drawImage(img, box.x1, box.y1, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+    return canvasToFile(canvas, `crop-${file.name}`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Cut an object out of an image with its segmentation mask, placing it on a
+ * neutral background and cropping to its bounding box
+ * @param file Source image file
+ * @param region Object bounding box (original image pixels)
+ * @param maskBase64 Base64 PNG mask covering the whole image
+ * @returns Masked JPEG file
+ */
+export async function maskImage(file: File, region: Region, maskBase64: string): Promise<File> {
+  const url = URL.createObjectURL(file);
+  try {
+    const [img, mask] = await Promise.all([
+      loadImage(url),
+      loadImage(`data:image/png;base64,${maskBase64}`),
+    ]);
+    const box = paddedRegion(region, img.width, img.height);
+    const width = Math.max(1, box.x2 - box.x1);
+    const height = Math.max(1, box.y2 - box.y1);
+
+    // Keep only the masked pixels of the object
+    const objectCanvas = document.createElement('canvas');
+    objectCanvas.width = width;
+    objectCanvas.height = height;
+    const objectCtx = objectCanvas.getContext('2d');
+    if (!objectCtx) throw new Error('Canvas context not available');
+    // Masks are generated at image resolution; scale in case they are not
+    const scaleX = mask.width / img.width;
+    const scaleY = mask.height / img.height;
+    objectCtx.drawImage(mask, box.x1 * scaleX, box.y1 * scaleY, width * scaleX, height * scaleY, 0, 0, width, height);
+    objectCtx.globalCompositeOperation = 'source-in';
+    objectCtx.drawImage(img, box.x1, box.y1, width, height, 0, 0, width, height);
+
+    // Flatten onto the neutral background (JPEG has no alpha)
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context not available');
+    ctx.fillStyle = MASK_BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(objectCanvas, 0, 0);
+
+    return canvasToFile(canvas, `masked-${file.name}`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Small JPEG preview of an image, e.g. for saved search records
+ * @param file Source image
+ * @param maxSize Longest side of the thumbnail in pixels
+ * @returns JPEG data URL
+ */
+export async function createThumbnail(file: Blob, maxSize: number = 240): Promise<string> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context not available');
+
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * A value kept in localStorage, shaped for useSyncExternalStore so every
+ * component (and every tab) sees the same value.
+ */
+
+export interface LocalStorageStore<T> {
+  subscribe: (listener: () => void) => () => void;
+  /** The parsed value; the same object until the stored string changes */
+  read: () => T;
+  write: (value: T) => void;
+}
+
+/**
+ * `parse` turns the stored string (null when unset) into a value and must
+ * not throw; `serialize` defaults to JSON.
+ */
+export function createLocalStorageStore<T>(
+  key: string,
+  parse: (raw: string | null) => T,
+  serialize: (value: T) => string = JSON.stringify
+): LocalStorageStore<T> {
+  // Writes notify same-tab subscribers; other tabs get a "storage" event
+  const listeners = new Set<() => void>();
+  // useSyncExternalStore needs a stable snapshot, so parse only when the raw value changes
+  let cached: { raw: string | null; value: T } | null = null;
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      window.addEventListener("storage", listener);
+      return () => {
+        listeners.delete(listener);
+        window.removeEventListener("storage", listener);
+      };
+    },
+    read() {
+      const raw = localStorage.getItem(key);
+      if (cached?.raw !== raw) {
+        cached = { raw, value: parse(raw) };
+      }
+      return cached.value;
+    },
+    write(value) {
+      localStorage.setItem(key, serialize(value));
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
@@ -0,0 +1,830 @@
+/**
+ * UI strings for each locale (see lib/i18n.ts)
+ */
+
+export const EN_MESSAGES = {
+  // Navigation
+  "nav.appName": "Interior Visual Search",
+  "nav.search": "Search",
+  "nav.catalog": "Catalog",
+  "nav.wishlist": "Wishlist",
+  "nav.moodboard": "Moodboard",
+  "nav.language": "Language",
+  "nav.backendStatus": "Backend: {status}",
+  "nav.lastChecked": "Last checked {time}",
+  "status.checking": "Checking",
+  "status.connected": "Connected",
+  "status.degraded": "Degraded",
+  "status.offline": "Offline",
+  "banner.offline": "The search backend is unreachable. Uploads are disabled until the connection is restored.",
+  "banner.retry": "Retry now",
+  "backendStatus.unhealthy": "Backend reports status \"{status}\"",
+  "backendStatus.slow": "Backend is responding slowly ({seconds}s)",
+  "backendStatus.unreachable": "Unable to connect to the backend",
+  "backendStatus.timeout": "The backend did not respond in time",
+  "backendStatus.httpError": "Health check failed (HTTP {status})",
+  "backendStatus.checkFailed": "Health check failed",
+  "currency.label": "Display currency",
+  "currency.ratesNote": "Prices are converted using a fixed exchange-rate table",
+
+  // Pages
+  "home.title": "Interior Visual Search",
+  "home.subtitle": "Upload a room image to find exact product matches and visually similar alternatives",
+  "catalogPage.title": "Catalog Management",
+  "catalogPage.subtitle": "Add products to the catalog by uploading product images",
+  "catalogPage.single": "Single product",
+  "catalogPage.bulk": "Bulk import",
+  "catalogPage.browse": "Browse catalog",
+  "wishlistPage.title": "Wishlist",
+  "wishlistPage.subtitle": "Products you saved across searches, kept in this browser",
+  "comparePage.title": "Compare Products",
+  "comparePage.subtitle": "Rows where the products differ are highlighted",
+  "moodboardPage.title": "Moodboard",
+  "moodboardPage.subtitle": "Arrange products, room photos and notes into a board for a client",
+  "resultsPage.loading": "Loading results...",
+  "resultsPage.parseError": "Failed to parse results",
+  "resultsPage.missing": "No results found",
+  "resultsPage.unavailable": "No results available",
+  "resultsPage.back": "Return to search",
+  "resultsPage.sessionTitle": "Saved Search",
+  "resultsPage.savedAt": "Saved {date}",
+  "resultsPage.queryImage": "Query image",
+  "resultsPage.sessionMissing": "This search is not available. The link may be mistyped, or the search may have expired.",
+  "resultsPage.loadFailed": "Failed to load this search. Please try again.",
+
+  // Uploads
+  "upload.prompt": "Click to upload or drag and drop",
+  "upload.hint": "PNG, JPG, WEBP up to 15MB (minimum 400×400px recommended)",
+  "upload.unavailable": "Uploads are unavailable",
+  "upload.offlineDetail": "The search backend is offline. Uploads will be enabled again once it reconnects.",
+  "upload.offlineInline": "Uploads are unavailable while the backend is offline",
+
+  // Search interface
+  "search.title": "Visual Search",
+  "search.detected.one": "Detected {count} object.",
+  "search.detected.other": "Detected {count} objects.",
+  "search.clickHint": "Click on any object to search for similar products.",
+  "search.fromCache": "(loaded from cache)",
+  "search.processing": "Processing image...",
+  "search.queryModeHint": "How the search query image is built from the selected object",
+  "queryMode.crop": "Crop to object",
+  "queryMode.masked": "Masked object",
+  "queryMode.full": "Full image",
+  "search.shopRoom": "Shop whole room",
+  "search.shopRoomHint": "Search for every detected object at once",
+  "search.drawRegion": "Draw region",
+  "search.exitDrawMode": "Exit draw mode",
+  "search.drawRegionHint": "Draw a box around an object the detector missed",
+  "search.redetect": "Re-detect",
+  "search.redetectHint": "Run detection again, ignoring cached results",
+  "search.removeImage": "Remove image",
+  "search.anyCategory": "Any category",
+  "search.searchRegion": "Search region",
+  "search.wholeRoom": "Whole Room",
+  "search.objectsSearched": "{done} of {total} objects searched",
+  "search.showingFor": "Showing results for:",
+  "search.drawnRegion": "(drawn region)",
+  "search.openResults": "Open results page",
+  "search.openResultsHint": "Open these results on their own page, saved in this browser",
+  "search.recommendations": "Product Recommendations",
+  "search.searching": "Searching for products...",
+  "search.uploadTitle": "Upload an Image",
+  "search.uploadHint": "You need to upload an image and then click on any product for recommendation",
+  "search.noSelection": "No products selected",
+  "search.noSelectionHint": "On hover you can see the detected segmented part of an object and click on that the recommendation product visible here",
+  "search.errorNoObjects": "No objects detected in the image. Please try a different image.",
+  "search.errorDetect": "Failed to detect objects",
+  "search.errorSearch": "Failed to search products",
+  "search.errorLoadMore": "Failed to load more products",
+  "search.errorFilters": "Failed to apply filters",
+  "search.errorNoImage": "No image available",
+  "search.errorResize": "Failed to resize image: {message}",
+  "search.errorTooLarge": "Image is too large ({size}MB). Please use a smaller image.",
+  "search.errorProcess": "Failed to process image: {message}",
+  "search.errorUnknown": "Unknown error",
+  "detect.clickToSearch": "Click to search for {label}",
+  "detect.detecting": "Detecting objects...",
+  "region.dragHint": "Click and drag to select area",
+  "region.clear": "Clear bounding box",
+  "room.object": "Object",
+  "room.failed": "Search failed",
+  "room.searching": "Searching...",
+  "room.waiting": "Waiting...",
+  "room.showLess": "Show less",
+  "room.showAll": "Show all {count}",
+  "modal.close": "Close",
+  "modal.loadingImage": "Loading image...",
+  "modal.imageUnavailable": "Image not available",
+  "modal.match": "{percent}% match",
+
+  // Search history
+  "history.title": "Search history",
+  "history.open": "History",
+  "history.openHint": "Past uploads and searches saved in this browser",
+  "history.close": "Close",
+  "history.empty": "No past uploads yet. Rooms you upload are remembered in this browser.",
+  "history.reopen": "Reopen with its detected objects",
+  "history.rerun": "Re-run",
+  "history.rerunHint": "Search again against the current catalog",
+  "history.delete": "Delete from history",
+  "history.clear": "Clear history",
+  "history.confirmClear": "Delete all history?",
+  "history.cancel": "Cancel",
+  "history.objectCount.one": "{count} object",
+  "history.objectCount.other": "{count} objects",
+
+  // Wishlist
+  "favorites.add": "Save to wishlist",
+  "favorites.remove": "Remove from wishlist",
+  "wishlist.empty": "Your wishlist is empty",
+  "wishlist.emptyHint": "Tap the heart on any product to save it here.",
+  "wishlist.startSearch": "Start a search",
+  "wishlist.removeInactive": "Remove inactive ({count})",
+  "wishlist.export": "Export CSV",
+  "wishlist.inactive": "Inactive",
+  "wishlist.savedAt": "Saved {date}",
+
+  // Comparison
+  "compare.add": "Compare",
+  "compare.selected": "Comparing",
+  "compare.full": "You can compare up to {max} products",
+  "compare.count.one": "{count} product to compare",
+  "compare.count.other": "{count} products to compare",
+  "compare.remove": "Remove from comparison",
+  "compare.clear": "Clear",
+  "compare.open": "Compare",
+  "compare.needMore": "Select at least {min}",
+  "compare.empty": "Nothing to compare yet",
+  "compare.emptyHint": "Pick two to four products with \"Compare\" in the search results.",
+  "compare.nameEnglish": "Name (English)",
+  "compare.nameArabic": "Name (Arabic)",
+  "compare.category": "Category",
+  "compare.price": "Price",
+  "compare.store": "Store",
+  "compare.countries": "Available in",
+  "compare.score": "Match score",
+  "compare.link": "Product page",
+  "compare.differs": "Differs",
+  "compare.lowestPrice": "Lowest price",
+
+  // Moodboard
+  "moodboard.addNote": "Add note",
+  "moodboard.newNote": "New note",
+  "moodboard.exportPng": "Export PNG",
+  "moodboard.exportError": "Export failed",
+  "moodboard.print": "Print / PDF",
+  "moodboard.printHint": "Opens the print dialog; choose \"Save as PDF\" to get a file",
+  "moodboard.clear": "Clear board",
+  "moodboard.confirmClear": "Remove everything from the board?",
+  "moodboard.cancel": "Cancel",
+  "moodboard.empty": "Drag products, room photos and crops here",
+  "moodboard.remove": "Remove from board",
+  "moodboard.sourceHint": "Drag onto the board or click to add.",
+  "moodboard.room": "Room",
+  "moodboard.noRooms": "Upload a room on the search page to use its photo here.",
+  "moodboard.crop": "Object crop",
+  "moodboard.results": "Search results",
+  "moodboard.noWishlist": "Products you save to the wishlist appear here.",
+  "moodboard.dropHere": "Drop to add to the moodboard",
+  "moodboard.added": "Added to the moodboard",
+  "moodboard.product": "Product",
+
+  // Result export
+  "export.label": "Export",
+  "export.hint": "Download these results with their rank, score and search details",
+  "export.csv": "CSV",
+  "export.json": "JSON",
+
+  // Bulk catalog import
+  "catalogImport.dropPrompt": "Drop a manifest and product images or a folder here",
+  "catalogImport.manifestHint": "CSV or JSON with sku_id, category, image (file name) and optional attributes as JSON",
+  "catalogImport.chooseManifest": "Choose manifest",
+  "catalogImport.chooseImages": "Choose images",
+  "catalogImport.chooseFolder": "Choose folder",
+  "catalogImport.manifestLoaded": "Manifest: {name}",
+  "catalogImport.noManifest": "No manifest yet",
+  "catalogImport.imageCount.one": "{count} image",
+  "catalogImport.imageCount.other": "{count} images",
+  "catalogImport.reset": "Start over",
+  "catalogImport.validating": "Checking rows and images...",
+  "catalogImport.manifestUnreadable": "The manifest could not be read",
+  "catalogImport.manifest.empty": "The manifest has no rows",
+  "catalogImport.manifest.missingColumns": "The CSV header must include sku_id, category and image columns",
+  "catalogImport.manifest.invalidJson": "The manifest is not valid JSON",
+  "catalogImport.manifest.notArray": "The JSON manifest must be an array of rows",
+  "catalogImport.start.one": "Import {count} product",
+  "catalogImport.start.other": "Import {count} products",
+  "catalogImport.cancel": "Cancel",
+  "catalogImport.retryFailed": "Retry failed ({count})",
+  "catalogImport.errorReport": "Download error report",
+  "catalogImport.progress": "{processed} of {total} processed",
+  "catalogImport.summary": "{done} added · {failed} failed · {invalid} invalid",
+  "catalogImport.statusColumn": "Status",
+  "catalogImport.status.invalid": "Invalid",
+  "catalogImport.status.ready": "Ready",
+  "catalogImport.status.uploading": "Uploading",
+  "catalogImport.status.done": "Added",
+  "catalogImport.status.failed": "Failed",
+  "catalogImport.issue.missingSku": "SKU ID is missing",
+  "catalogImport.issue.duplicateSku": "SKU ID already used in row {row}",
+  "catalogImport.issue.missingCategory": "Category is missing",
+  "catalogImport.issue.unknownCategory": "Unknown category \"{category}\"",
+  "catalogImport.issue.missingImage": "Image file name is missing",
+  "catalogImport.issue.imageNotFound": "Image \"{image}\" was not among the dropped files",
+  "catalogImport.issue.invalidAttributes": "Attributes must be a JSON object",
+  "catalogImport.issue.invalidAttributeValue": "Attribute \"{attribute}\" does not match the category schema",
+  "catalogImport.issue.notImage": "The file is not an image",
+  "catalogImport.issue.imageTooLarge": "Image is larger than {max}MB",
+  "catalogImport.issue.imageTooSmall": "Image too small ({width}×{height}px), minimum {min}×{min}px",
+  "catalogImport.issue.imageUnreadable": "The image could not be read",
+
+  // Catalog browser
+  "catalogBrowser.allCategories": "All categories",
+  "catalogBrowser.lookupPlaceholder": "Find a SKU, e.g. BED-001",
+  "catalogBrowser.lookup": "Find",
+  "catalogBrowser.lookupResult": "Showing SKU \"{sku}\"",
+  "catalogBrowser.notFound": "No item with SKU \"{sku}\"",
+  "catalogBrowser.backToList": "Back to list",
+  "catalogBrowser.empty": "No catalog items in this category",
+  "catalogBrowser.loadFailed": "Failed to load the catalog",
+  "catalogBrowser.range": "{from}–{to} of {total}",
+  "catalogBrowser.previous": "Previous",
+  "catalogBrowser.next": "Next",
+  "catalogBrowser.moreAttributes.one": "+{count} more attribute",
+  "catalogBrowser.moreAttributes.other": "+{count} more attributes",
+  "catalogBrowser.edit": "Edit",
+  "catalogBrowser.editTitle": "Edit {sku}",
+  "catalogBrowser.delete": "Delete",
+  "catalogBrowser.confirmDelete": "Delete from the catalog?",
+  "catalogBrowser.deleted": "Deleted \"{sku}\" from the catalog",
+  "catalogBrowser.deleteFailed": "Failed to delete the item",
+  "catalogBrowser.cancel": "Cancel",
+  "catalogBrowser.replaceImage": "Replace image",
+  "catalogBrowser.replaceImageHint": "Leave empty to keep the current image",
+  "catalogBrowser.imageUnavailable": "The current image could not be loaded. Choose the image again to save.",
+  "catalogBrowser.save": "Save changes",
+  "catalogBrowser.saving": "Saving...",
+  "catalogBrowser.saved": "Saved \"{sku}\"",
+  "catalogBrowser.saveFailed": "Failed to save the item",
+
+  // Attribute editor
+  "attributes.mode.form": "Fields",
+  "attributes.mode.json": "JSON",
+  "attributes.fixJsonFirst": "Fix the JSON to switch back to fields",
+  "attributes.chooseCategory": "Choose a category to see its attributes",
+  "attributes.unit": "Unit",
+  "attributes.notSet": "Not set",
+  "attributes.other": "Other attributes",
+  "attributes.otherHint": "Edit these in the JSON view",
+  "attributes.remove": "Remove {key}",
+  "attributes.validJson": "Valid JSON",
+  "attributes.invalidJson": "Invalid JSON format",
+  "attributes.jsonIssues": "Some attributes do not match the category schema; switch to fields to see which",
+  "attributes.jsonHint": "Measurements are stored in cm and kg, e.g. \"width_cm\": 160",
+  "attributes.issue.notNumber": "Must be a number",
+  "attributes.issue.notInteger": "Must be a whole number",
+  "attributes.issue.notPositive": "Must be greater than 0",
+  "attributes.issue.tooSmall": "Must be at least {min}",
+  "attributes.issue.tooLarge": "Must be at most {max} {unit}",
+  "attributes.issue.notOption": "Not one of the options",
+  "attributes.issue.notText": "Must be text",
+  "attributes.field.name": "Name",
+  "attributes.field.price": "Price",
+  "attributes.field.currency": "Currency",
+  "attributes.field.color": "Color",
+  "attributes.field.width_cm": "Width",
+  "attributes.field.length_cm": "Length",
+  "attributes.field.depth_cm": "Depth",
+  "attributes.field.height_cm": "Height",
+  "attributes.field.diameter_cm": "Diameter",
+  "attributes.field.thickness_cm": "Thickness",
+  "attributes.field.weight_kg": "Weight",
+  "attributes.field.seats": "Seats",
+  "attributes.field.material": "Material",
+  "attributes.field.shape": "Shape",
+  "attributes.field.firmness": "Firmness",
+  "attributes.option.fabric": "Fabric",
+  "attributes.option.leather": "Leather",
+  "attributes.option.velvet": "Velvet",
+  "attributes.option.linen": "Linen",
+  "attributes.option.upholstered": "Upholstered",
+  "attributes.option.wood": "Wood",
+  "attributes.option.glass": "Glass",
+  "attributes.option.marble": "Marble",
+  "attributes.option.metal": "Metal",
+  "attributes.option.plastic": "Plastic",
+  "attributes.option.rattan": "Rattan",
+  "attributes.option.ceramic": "Ceramic",
+  "attributes.option.wool": "Wool",
+  "attributes.option.cotton": "Cotton",
+  "attributes.option.silk": "Silk",
+  "attributes.option.synthetic": "Synthetic",
+  "attributes.option.rectangular": "Rectangular",
+  "attributes.option.square": "Square",
+  "attributes.option.round": "Round",
+  "attributes.option.oval": "Oval",
+  "attributes.option.soft": "Soft",
+  "attributes.option.medium": "Medium",
+  "attributes.option.firm": "Firm",
+  "attributes.units.mm": "mm",
+  "attributes.units.cm": "cm",
+  "attributes.units.m": "m",
+  "attributes.units.in": "in",
+  "attributes.units.ft": "ft",
+  "attributes.units.g": "g",
+  "attributes.units.kg": "kg",
+  "attributes.units.lb": "lb",
+
+  // Results
+  "results.title": "Search Results",
+  "results.none": "No products found",
+  "results.found.one": "Found {count} product",
+  "results.found.other": "Found {count} products",
+  "results.showing": "Showing {visible} of {total} products",
+  "results.productCount.one": "{count} product",
+  "results.productCount.other": "{count} products",
+  "results.tryDifferent": "Try a different search",
+  "results.or": "or",
+  "results.addProducts": "Add products to catalog",
+  "results.bestMatch": "Best Match",
+  "results.store": "Store:",
+  "results.availableIn": "Available in:",
+  "results.viewProduct": "View Product",
+  "results.loadMore": "Load more",
+  "results.loadingMore": "Loading more...",
+
+  // Filters and sorting
+  "filters.title": "Filters",
+  "filters.clearAll": "Clear all",
+  "filters.clear": "Clear filters",
+  "filters.applying": "Applying filters...",
+  "filters.noMatch": "No products match these filters",
+  "filters.price": "Price",
+  "filters.minPrice": "Minimum price",
+  "filters.maxPrice": "Maximum price",
+  "filters.store": "Store",
+  "filters.country": "Country",
+  "filters.hideInactive": "Hide unavailable",
+  "sort.label": "Sort results",
+  "sort.similarity": "Most similar",
+  "sort.price-asc": "Price: low to high",
+  "sort.price-desc": "Price: high to low",
+  "sort.store": "Store name",
+
+  // Catalog
+  "catalog.skuId": "SKU ID",
+  "catalog.skuPlaceholder": "e.g., BED-001",
+  "catalog.category": "Category",
+  "catalog.selectCategory": "Select a category",
+  "catalog.attributes": "Attributes",
+  "catalog.optional": "(Optional)",
+  "catalog.image": "Product Image",
+  "catalog.preview": "Preview",
+  "catalog.submit": "Add to Catalog",
+  "catalog.submitting": "Adding to Catalog...",
+  "catalog.success": "Product \"{sku}\" added successfully! Image ID: {imageId}",
+  "catalog.skuRequired": "SKU ID is required",
+  "catalog.categoryRequired": "Category is required",
+  "catalog.imageRequired": "Product image is required",
+  "catalog.fixJson": "Please fix the JSON format in attributes",
+  "catalog.fixAttributes": "Please fix the highlighted attributes",
+  "catalog.failed": "Failed to add product to catalog",
+  "catalog.selectImage": "Please select an image file",
+  "catalog.imageTooSmall": "Image too small ({width}×{height}px). Minimum 400×400px required for quality detection and embeddings.",
+  "catalog.imageLoadFailed": "Failed to load image. Please try another file.",
+} as const;
+
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+type PluralBase<K> = K extends `${infer Base}.other` ? Base : never;
+
+/** Keys with plural forms, looked up with a `count` param */
+export type PluralKey = PluralBase<MessageKey>;
+
+// Locales may define extra plural forms (Arabic has zero/two/few/many)
+export type Messages = Record<MessageKey, string> &
+  Partial<Record<`${PluralKey}.${Intl.LDMLPluralRule}`, string>>;
+
+export const AR_MESSAGES: Messages = {
+  // Navigation
+  "nav.appName": "البحث المرئي للديكور",
+  "nav.search": "بحث",
+  "nav.catalog": "الكتالوج",
+  "nav.wishlist": "المفضلة",
+  "nav.moodboard": "لوحة الإلهام",
+  "nav.language": "اللغة",
+  "nav.backendStatus": "الخادم: {status}",
+  "nav.lastChecked": "آخر فحص {time}",
+  "status.checking": "جارٍ التحقق",
+  "status.connected": "متصل",
+  "status.degraded": "أداء منخفض",
+  "status.offline": "غير متصل",
+  "banner.offline": "تعذّر الوصول إلى خادم البحث. تم تعطيل الرفع حتى تتم استعادة الاتصال.",
+  "banner.retry": "أعد المحاولة الآن",
+  "backendStatus.unhealthy": "الخادم يبلّغ عن الحالة \"{status}\"",
+  "backendStatus.slow": "الخادم يستجيب ببطء ({seconds} ث)",
+  "backendStatus.unreachable": "تعذّر الاتصال بالخادم",
+  "backendStatus.timeout": "لم يستجب الخادم في الوقت المحدد",
+  "backendStatus.httpError": "فشل فحص الحالة (HTTP {status})",
+  "backendStatus.checkFailed": "فشل فحص الحالة",
+  "currency.label": "عملة العرض",
+  "currency.ratesNote": "تُحوَّل الأسعار باستخدام جدول ثابت لأسعار الصرف",
+
+  // Pages
+  "home.title": "البحث المرئي للديكور",
+  "home.subtitle": "ارفع صورة لغرفة للعثور على المنتجات المطابقة وبدائل مشابهة لها",
+  "catalogPage.title": "إدارة الكتالوج",
+  "catalogPage.subtitle": "أضف منتجات إلى الكتالوج برفع صورها",
+  "catalogPage.single": "منتج واحد",
+  "catalogPage.bulk": "استيراد جماعي",
+  "catalogPage.browse": "تصفح الكتالوج",
+  "wishlistPage.title": "المفضلة",
+  "wishlistPage.subtitle": "المنتجات التي حفظتها من عمليات البحث، محفوظة في هذا المتصفح",
+  "comparePage.title": "مقارنة المنتجات",
+  "comparePage.subtitle": "الصفوف التي تختلف فيها المنتجات مميزة",
+  "moodboardPage.title": "لوحة الإلهام",
+  "moodboardPage.subtitle": "رتّب المنتجات وصور الغرف والملاحظات في لوحة للعميل",
+  "resultsPage.loading": "جارٍ تحميل النتائج...",
+  "resultsPage.parseError": "تعذّرت قراءة النتائج",
+  "resultsPage.missing": "لم يتم العثور على نتائج",
+  "resultsPage.unavailable": "لا توجد نتائج متاحة",
+  "resultsPage.back": "العودة إلى البحث",
+  "resultsPage.sessionTitle": "بحث محفوظ",
+  "resultsPage.savedAt": "حُفظ في {date}",
+  "resultsPage.queryImage": "صورة البحث",
+  "resultsPage.sessionMissing": "هذا البحث غير متاح. قد يكون الرابط غير صحيح أو انتهت صلاحية البحث.",
+  "resultsPage.loadFailed": "تعذّر تحميل هذا البحث. يرجى المحاولة مرة أخرى.",
+
+  // Uploads
+  "upload.prompt": "انقر للرفع أو اسحب الصورة وأفلتها هنا",
+  "upload.hint": "PNG أو JPG أو WEBP حتى 15 ميغابايت (يُفضّل 400×400 بكسل على الأقل)",
+  "upload.unavailable": "الرفع غير متاح",
+  "upload.offlineDetail": "خادم البحث غير متصل. سيُعاد تفعيل الرفع عند عودة الاتصال.",
+  "upload.offlineInline": "الرفع غير متاح أثناء انقطاع الاتصال بالخادم",
+
+  // Search interface
+  "search.title": "البحث المرئي",
+  "search.detected.zero": "لم يتم اكتشاف أي عنصر.",
+  "search.detected.one": "تم اكتشاف عنصر واحد.",
+  "search.detected.two": "تم اكتشاف عنصرين.",
+  "search.detected.few": "تم اكتشاف {count} عناصر.",
+  "search.detected.many": "تم اكتشاف {count} عنصرًا.",
+  "search.detected.other": "تم اكتشاف {count} عنصر.",
+  "search.clickHint": "انقر على أي عنصر للبحث عن منتجات مشابهة.",
+  "search.fromCache": "(من الذاكرة المؤقتة)",
+  "search.processing": "جارٍ معالجة الصورة...",
+  "search.queryModeHint": "طريقة إنشاء صورة البحث من العنصر المحدد",
+  "queryMode.crop": "قص حول العنصر",
+  "queryMode.masked": "العنصر معزولًا",
+  "queryMode.full": "الصورة كاملة",
+  "search.shopRoom": "تسوّق الغرفة كاملة",
+  "search.shopRoomHint": "ابحث عن كل العناصر المكتشفة دفعة واحدة",
+  "search.drawRegion": "تحديد منطقة",
+  "search.exitDrawMode": "إنهاء التحديد",
+  "search.drawRegionHint": "ارسم مربعًا حول عنصر لم يتم اكتشافه",
+  "search.redetect": "إعادة الاكتشاف",
+  "search.redetectHint": "أعد تشغيل الاكتشاف متجاهلًا النتائج المحفوظة",
+  "search.removeImage": "إزالة الصورة",
+  "search.anyCategory": "أي فئة",
+  "search.searchRegion": "ابحث في المنطقة",
+  "search.wholeRoom": "الغرفة كاملة",
+  "search.objectsSearched": "تم البحث عن {done} من {total} عناصر",
+  "search.showingFor": "عرض النتائج لـ:",
+  "search.drawnRegion": "(منطقة محددة)",
+  "search.openResults": "فتح صفحة النتائج",
+  "search.openResultsHint": "افتح هذه النتائج في صفحة مستقلة محفوظة في هذا المتصفح",
+  "search.recommendations": "المنتجات المقترحة",
+  "search.searching": "جارٍ البحث عن المنتجات...",
+  "search.uploadTitle": "ارفع صورة",
+  "search.uploadHint": "ارفع صورة ثم انقر على أي عنصر فيها لعرض المنتجات المقترحة",
+  "search.noSelection": "لم يتم تحديد أي عنصر",
+  "search.noSelectionHint": "مرّر المؤشر فوق الصورة لرؤية العناصر المكتشفة، ثم انقر على أحدها لعرض المنتجات المقترحة هنا",
+  "search.errorNoObjects": "لم يتم اكتشاف أي عناصر في الصورة. يرجى تجربة صورة أخرى.",
+  "search.errorDetect": "تعذّر اكتشاف العناصر",
+  "search.errorSearch": "تعذّر البحث عن المنتجات",
+  "search.errorLoadMore": "تعذّر تحميل المزيد من المنتجات",
+  "search.errorFilters": "تعذّر تطبيق عوامل التصفية",
+  "search.errorNoImage": "لا توجد صورة",
+  "search.errorResize": "تعذّر تغيير حجم الصورة: {message}",
+  "search.errorTooLarge": "الصورة كبيرة جدًا ({size} ميغابايت). يرجى استخدام صورة أصغر.",
+  "search.errorProcess": "تعذّرت معالجة الصورة: {message}",
+  "search.errorUnknown": "خطأ غير معروف",
+  "detect.clickToSearch": "انقر للبحث عن {label}",
+  "detect.detecting": "جارٍ اكتشاف العناصر...",
+  "region.dragHint": "انقر واسحب لتحديد منطقة",
+  "region.clear": "مسح التحديد",
+  "room.object": "عنصر",
+  "room.failed": "فشل البحث",
+  "room.searching": "جارٍ البحث...",
+  "room.waiting": "في الانتظار...",
+  "room.showLess": "عرض أقل",
+  "room.showAll": "عرض الكل ({count})",
+  "modal.close": "إغلاق",
+  "modal.loadingImage": "جارٍ تحميل الصورة...",
+  "modal.imageUnavailable": "الصورة غير متوفرة",
+  "modal.match": "تطابق بنسبة {percent}٪",
+
+  // Search history
+  "history.title": "سجل البحث",
+  "history.open": "السجل",
+  "history.openHint": "الصور وعمليات البحث السابقة المحفوظة في هذا المتصفح",
+  "history.close": "إغلاق",
+  "history.empty": "لا توجد صور سابقة بعد. تُحفظ الغرف التي ترفعها في هذا المتصفح.",
+  "history.reopen": "إعادة الفتح مع العناصر المكتشفة",
+  "history.rerun": "إعادة البحث",
+  "history.rerunHint": "ابحث مجددًا في الكتالوج الحالي",
+  "history.delete": "حذف من السجل",
+  "history.clear": "مسح السجل",
+  "history.confirmClear": "حذف السجل بالكامل؟",
+  "history.cancel": "إلغاء",
+  "history.objectCount.zero": "لا توجد عناصر",
+  "history.objectCount.one": "عنصر واحد",
+  "history.objectCount.two": "عنصران",
+  "history.objectCount.few": "{count} عناصر",
+  "history.objectCount.many": "{count} عنصرًا",
+  "history.objectCount.other": "{count} عنصر",
+
+  // Wishlist
+  "favorites.add": "أضف إلى المفضلة",
+  "favorites.remove": "إزالة من المفضلة",
+  "wishlist.empty": "قائمة المفضلة فارغة",
+  "wishlist.emptyHint": "اضغط على القلب في أي منتج لحفظه هنا.",
+  "wishlist.startSearch": "ابدأ البحث",
+  "wishlist.removeInactive": "إزالة غير المتوفرة ({count})",
+  "wishlist.export": "تصدير CSV",
+  "wishlist.inactive": "غير متوفر",
+  "wishlist.savedAt": "حُفظ في {date}",
+
+  // Comparison
+  "compare.add": "قارن",
+  "compare.selected": "قيد المقارنة",
+  "compare.full": "يمكنك مقارنة {max} منتجات كحد أقصى",
+  "compare.count.zero": "لا توجد منتجات للمقارنة",
+  "compare.count.one": "منتج واحد للمقارنة",
+  "compare.count.two": "منتجان للمقارنة",
+  "compare.count.few": "{count} منتجات للمقارنة",
+  "compare.count.many": "{count} منتجًا للمقارنة",
+  "compare.count.other": "{count} منتج للمقارنة",
+  "compare.remove": "إزالة من المقارنة",
+  "compare.clear": "مسح",
+  "compare.open": "قارن",
+  "compare.needMore": "اختر {min} على الأقل",
+  "compare.empty": "لا يوجد ما تتم مقارنته بعد",
+  "compare.emptyHint": "اختر من منتجين إلى أربعة عبر زر \"قارن\" في نتائج البحث.",
+  "compare.nameEnglish": "الاسم (بالإنجليزية)",
+  "compare.nameArabic": "الاسم (بالعربية)",
+  "compare.category": "الفئة",
+  "compare.price": "السعر",
+  "compare.store": "المتجر",
+  "compare.countries": "متوفر في",
+  "compare.score": "نسبة التطابق",
+  "compare.link": "صفحة المنتج",
+  "compare.differs": "مختلف",
+  "compare.lowestPrice": "أقل سعر",
+
+  // Moodboard
+  "moodboard.addNote": "إضافة ملاحظة",
+  "moodboard.newNote": "ملاحظة جديدة",
+  "moodboard.exportPng": "تصدير PNG",
+  "moodboard.exportError": "تعذّر التصدير",
+  "moodboard.print": "طباعة / PDF",
+  "moodboard.printHint": "يفتح نافذة الطباعة؛ اختر \"حفظ بتنسيق PDF\" للحصول على ملف",
+  "moodboard.clear": "مسح اللوحة",
+  "moodboard.confirmClear": "إزالة كل شيء من اللوحة؟",
+  "moodboard.cancel": "إلغاء",
+  "moodboard.empty": "اسحب المنتجات وصور الغرف والقصاصات إلى هنا",
+  "moodboard.remove": "إزالة من اللوحة",
+  "moodboard.sourceHint": "اسحب إلى اللوحة أو انقر للإضافة.",
+  "moodboard.room": "الغرفة",
+  "moodboard.noRooms": "ارفع صورة غرفة في صفحة البحث لاستخدامها هنا.",
+  "moodboard.crop": "قصاصة عنصر",
+  "moodboard.results": "نتائج البحث",
+  "moodboard.noWishlist": "تظهر هنا المنتجات التي تحفظها في المفضلة.",
+  "moodboard.dropHere": "أفلت هنا للإضافة إلى لوحة الإلهام",
+  "moodboard.added": "تمت الإضافة إلى لوحة الإلهام",
+  "moodboard.product": "المنتج",
+
+  // Result export
+  "export.label": "تصدير",
+  "export.hint": "تنزيل هذه النتائج مع ترتيبها ودرجتها وتفاصيل البحث",
+  "export.csv": "CSV",
+  "export.json": "JSON",
+
+  // Bulk catalog import
+  "catalogImport.dropPrompt": "أفلت ملف البيان وصور المنتجات أو مجلدًا هنا",
+  "catalogImport.manifestHint": "ملف CSV أو JSON يحتوي على sku_id وcategory وimage (اسم الملف) والخصائص اختياريًا بصيغة JSON",
+  "catalogImport.chooseManifest": "اختر ملف البيان",
+  "catalogImport.chooseImages": "اختر الصور",
+  "catalogImport.chooseFolder": "اختر مجلدًا",
+  "catalogImport.manifestLoaded": "ملف البيان: {name}",
+  "catalogImport.noManifest": "لم يُحمَّل ملف بيان بعد",
+  "catalogImport.imageCount.zero": "لا توجد صور",
+  "catalogImport.imageCount.one": "صورة واحدة",
+  "catalogImport.imageCount.two": "صورتان",
+  "catalogImport.imageCount.few": "{count} صور",
+  "catalogImport.imageCount.many": "{count} صورة",
+  "catalogImport.imageCount.other": "{count} صورة",
+  "catalogImport.reset": "البدء من جديد",
+  "catalogImport.validating": "جارٍ فحص الصفوف والصور...",
+  "catalogImport.manifestUnreadable": "تعذّرت قراءة ملف البيان",
+  "catalogImport.manifest.empty": "ملف البيان لا يحتوي على صفوف",
+  "catalogImport.manifest.missingColumns": "يجب أن يتضمن رأس ملف CSV الأعمدة sku_id وcategory وimage",
+  "catalogImport.manifest.invalidJson": "ملف البيان ليس JSON صالحًا",
+  "catalogImport.manifest.notArray": "يجب أن يكون ملف بيان JSON مصفوفة من الصفوف",
+  "catalogImport.start.zero": "لا توجد منتجات للاستيراد",
+  "catalogImport.start.one": "استيراد منتج واحد",
+  "catalogImport.start.two": "استيراد منتجين",
+  "catalogImport.start.few": "استيراد {count} منتجات",
+  "catalogImport.start.many": "استيراد {count} منتجًا",
+  "catalogImport.start.other": "استيراد {count} منتج",
+  "catalogImport.cancel": "إلغاء",
+  "catalogImport.retryFailed": "إعادة محاولة الفاشلة ({count})",
+  "catalogImport.errorReport": "تنزيل تقرير الأخطاء",
+  "catalogImport.progress": "تمت معالجة {processed} من {total}",
+  "catalogImport.summary": "أُضيف {done} · فشل {failed} · غير صالح {invalid}",
+  "catalogImport.statusColumn": "الحالة",
+  "catalogImport.status.invalid": "غير صالح",
+  "catalogImport.status.ready": "جاهز",
+  "catalogImport.status.uploading": "جارٍ الرفع",
+  "catalogImport.status.done": "أُضيف",
+  "catalogImport.status.failed": "فشل",
+  "catalogImport.issue.missingSku": "رمز المنتج مفقود",
+  "catalogImport.issue.duplicateSku": "رمز المنتج مستخدم في الصف {row}",
+  "catalogImport.issue.missingCategory": "الفئة مفقودة",
+  "catalogImport.issue.unknownCategory": "فئة غير معروفة \"{category}\"",
+  "catalogImport.issue.missingImage": "اسم ملف الصورة مفقود",
+  "catalogImport.issue.imageNotFound": "الصورة \"{image}\" ليست ضمن الملفات المُفلتة",
+  "catalogImport.issue.invalidAttributes": "يجب أن تكون الخصائص كائن JSON",
+  "catalogImport.issue.invalidAttributeValue": "الخاصية \"{attribute}\" لا تطابق مخطط الفئة",
+  "catalogImport.issue.notImage": "الملف ليس صورة",
+  "catalogImport.issue.imageTooLarge": "حجم الصورة أكبر من {max} ميغابايت",
+  "catalogImport.issue.imageTooSmall": "الصورة صغيرة جدًا ({width}×{height} بكسل)، الحد الأدنى {min}×{min} بكسل",
+  "catalogImport.issue.imageUnreadable": "تعذّرت قراءة الصورة",
+
+  // Catalog browser
+  "catalogBrowser.allCategories": "كل الفئات",
+  "catalogBrowser.lookupPlaceholder": "ابحث عن رمز منتج، مثال: BED-001",
+  "catalogBrowser.lookup": "بحث",
+  "catalogBrowser.lookupResult": "عرض رمز المنتج \"{sku}\"",
+  "catalogBrowser.notFound": "لا يوجد عنصر برمز المنتج \"{sku}\"",
+  "catalogBrowser.backToList": "العودة إلى القائمة",
+  "catalogBrowser.empty": "لا توجد عناصر في الكتالوج ضمن هذه الفئة",
+  "catalogBrowser.loadFailed": "تعذّر تحميل الكتالوج",
+  "catalogBrowser.range": "{from}–{to} من {total}",
+  "catalogBrowser.previous": "السابق",
+  "catalogBrowser.next": "التالي",
+  "catalogBrowser.moreAttributes.zero": "لا توجد خصائص أخرى",
+  "catalogBrowser.moreAttributes.one": "+خاصية واحدة أخرى",
+  "catalogBrowser.moreAttributes.two": "+خاصيتان أخريان",
+  "catalogBrowser.moreAttributes.few": "+{count} خصائص أخرى",
+  "catalogBrowser.moreAttributes.many": "+{count} خاصية أخرى",
+  "catalogBrowser.moreAttributes.other": "+{count} خاصية أخرى",
+  "catalogBrowser.edit": "تعديل",
+  "catalogBrowser.editTitle": "تعديل {sku}",
+  "catalogBrowser.delete": "حذف",
+  "catalogBrowser.confirmDelete": "حذف من الكتالوج؟",
+  "catalogBrowser.deleted": "تم حذف \"{sku}\" من الكتالوج",
+  "catalogBrowser.deleteFailed": "تعذّر حذف العنصر",
+  "catalogBrowser.cancel": "إلغاء",
+  "catalogBrowser.replaceImage": "استبدال الصورة",
+  "catalogBrowser.replaceImageHint": "اتركه فارغًا للإبقاء على الصورة الحالية",
+  "catalogBrowser.imageUnavailable": "تعذّر تحميل الصورة الحالية. اختر الصورة مجددًا للحفظ.",
+  "catalogBrowser.save": "حفظ التغييرات",
+  "catalogBrowser.saving": "جارٍ الحفظ...",
+  "catalogBrowser.saved": "تم حفظ \"{sku}\"",
+  "catalogBrowser.saveFailed": "تعذّر حفظ العنصر",
+
+  // Attribute editor
+  "attributes.mode.form": "الحقول",
+  "attributes.mode.json": "JSON",
+  "attributes.fixJsonFirst": "صحّح JSON للعودة إلى الحقول",
+  "attributes.chooseCategory": "اختر فئة لعرض خصائصها",
+  "attributes.unit": "الوحدة",
+  "attributes.notSet": "غير محدد",
+  "attributes.other": "خصائص أخرى",
+  "attributes.otherHint": "عدّل هذه الخصائص في عرض JSON",
+  "attributes.remove": "إزالة {key}",
+  "attributes.validJson": "JSON صالح",
+  "attributes.invalidJson": "تنسيق JSON غير صالح",
+  "attributes.jsonIssues": "بعض الخصائص لا تطابق مخطط الفئة؛ انتقل إلى الحقول لمعرفتها",
+  "attributes.jsonHint": "تُحفظ القياسات بالسنتيمتر والكيلوغرام، مثال: \"width_cm\": 160",
+  "attributes.issue.notNumber": "يجب أن يكون رقمًا",
+  "attributes.issue.notInteger": "يجب أن يكون عددًا صحيحًا",
+  "attributes.issue.notPositive": "يجب أن يكون أكبر من 0",
+  "attributes.issue.tooSmall": "يجب ألا يقل عن {min}",
+  "attributes.issue.tooLarge": "يجب ألا يزيد عن {max} {unit}",
+  "attributes.issue.notOption": "ليس من الخيارات المتاحة",
+  "attributes.issue.notText": "يجب أن يكون نصًا",
+  "attributes.field.name": "الاسم",
+  "attributes.field.price": "السعر",
+  "attributes.field.currency": "العملة",
+  "attributes.field.color": "اللون",
+  "attributes.field.width_cm": "العرض",
+  "attributes.field.length_cm": "الطول",
+  "attributes.field.depth_cm": "العمق",
+  "attributes.field.height_cm": "الارتفاع",
+  "attributes.field.diameter_cm": "القطر",
+  "attributes.field.thickness_cm": "السماكة",
+  "attributes.field.weight_kg": "الوزن",
+  "attributes.field.seats": "عدد المقاعد",
+  "attributes.field.material": "الخامة",
+  "attributes.field.shape": "الشكل",
+  "attributes.field.firmness": "الصلابة",
+  "attributes.option.fabric": "قماش",
+  "attributes.option.leather": "جلد",
+  "attributes.option.velvet": "مخمل",
+  "attributes.option.linen": "كتان",
+  "attributes.option.upholstered": "منجّد",
+  "attributes.option.wood": "خشب",
+  "attributes.option.glass": "زجاج",
+  "attributes.option.marble": "رخام",
+  "attributes.option.metal": "معدن",
+  "attributes.option.plastic": "بلاستيك",
+  "attributes.option.rattan": "روطان",
+  "attributes.option.ceramic": "سيراميك",
+  "attributes.option.wool": "صوف",
+  "attributes.option.cotton": "قطن",
+  "attributes.option.silk": "حرير",
+  "attributes.option.synthetic": "صناعي",
+  "attributes.option.rectangular": "مستطيل",
+  "attributes.option.square": "مربع",
+  "attributes.option.round": "دائري",
+  "attributes.option.oval": "بيضاوي",
+  "attributes.option.soft": "ناعمة",
+  "attributes.option.medium": "متوسطة",
+  "attributes.option.firm": "صلبة",
+  "attributes.units.mm": "مم",
+  "attributes.units.cm": "سم",
+  "attributes.units.m": "م",
+  "attributes.units.in": "إنش",
+  "attributes.units.ft": "قدم",
+  "attributes.units.g": "غ",
+  "attributes.units.kg": "كغ",
+  "attributes.units.lb": "رطل",
+
+  // Results
+  "results.title": "نتائج البحث",
+  "results.none": "لم يتم العثور على منتجات",
+  "results.found.zero": "لم يتم العثور على منتجات",
+  "results.found.one": "تم العثور على منتج واحد",
+  "results.found.two": "تم العثور على منتجين",
+  "results.found.few": "تم العثور على {count} منتجات",
+  "results.found.many": "تم العثور على {count} منتجًا",
+  "results.found.other": "تم العثور على {count} منتج",
+  "results.showing": "عرض {visible} من أصل {total} منتج",
+  "results.productCount.zero": "لا توجد منتجات",
+  "results.productCount.one": "منتج واحد",
+  "results.productCount.two": "منتجان",
+  "results.productCount.few": "{count} منتجات",
+  "results.productCount.many": "{count} منتجًا",
+  "results.productCount.other": "{count} منتج",
+  "results.tryDifferent": "جرّب بحثًا آخر",
+  "results.or": "أو",
+  "results.addProducts": "أضف منتجات إلى الكتالوج",
+  "results.bestMatch": "أفضل تطابق",
+  "results.store": "المتجر:",
+  "results.availableIn": "متوفر في:",
+  "results.viewProduct": "عرض المنتج",
+  "results.loadMore": "تحميل المزيد",
+  "results.loadingMore": "جارٍ تحميل المزيد...",
+
+  // Filters and sorting
+  "filters.title": "عوامل التصفية",
+  "filters.clearAll": "مسح الكل",
+  "filters.clear": "مسح عوامل التصفية",
+  "filters.applying": "جارٍ تطبيق عوامل التصفية...",
+  "filters.noMatch": "لا توجد منتجات تطابق عوامل التصفية",
+  "filters.price": "السعر",
+  "filters.minPrice": "أدنى سعر",
+  "filters.maxPrice": "أعلى سعر",
+  "filters.store": "المتجر",
+  "filters.country": "الدولة",
+  "filters.hideInactive": "إخفاء غير المتوفر",
+  "sort.label": "ترتيب النتائج",
+  "sort.similarity": "الأكثر تشابهًا",
+  "sort.price-asc": "السعر: من الأقل إلى الأعلى",
+  "sort.price-desc": "السعر: من الأعلى إلى الأقل",
+  "sort.store": "اسم المتجر",
+
+  // Catalog
+  "catalog.skuId": "رمز المنتج (SKU)",
+  "catalog.skuPlaceholder": "مثال: BED-001",
+  "catalog.category": "الفئة",
+  "catalog.selectCategory": "اختر فئة",
+  "catalog.attributes": "الخصائص",
+  "catalog.optional": "(اختياري)",
+  "catalog.image": "صورة المنتج",
+  "catalog.preview": "معاينة",
+  "catalog.submit": "أضف إلى الكتالوج",
+  "catalog.submitting": "جارٍ الإضافة إلى الكتالوج...",
+  "catalog.success": "تمت إضافة المنتج \"{sku}\" بنجاح! معرّف الصورة: {imageId}",
+  "catalog.skuRequired": "رمز المنتج مطلوب",
+  "catalog.categoryRequired": "الفئة مطلوبة",
+  "catalog.imageRequired": "صورة المنتج مطلوبة",
+  "catalog.fixJson": "يرجى تصحيح تنسيق JSON في الخصائص",
+  "catalog.fixAttributes": "يرجى تصحيح الخصائص المحددة",
+  "catalog.failed": "تعذّرت إضافة المنتج إلى الكتالوج",
+  "catalog.selectImage": "يرجى اختيار ملف صورة",
+  "catalog.imageTooSmall": "الصورة صغيرة جدًا ({width}×{height} بكسل). الحد الأدنى المطلوب 400×400 بكسل لضمان جودة الاكتشاف والتضمين.",
+  "catalog.imageLoadFailed": "تعذّر تحميل الصورة. يرجى تجربة ملف آخر.",
+};
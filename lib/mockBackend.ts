@@ -0,0 +1,514 @@
+/**
+ * In-browser mock of the FastAPI backend.
+ *
+ * Enabled with NEXT_PUBLIC_MOCK_API=true, in which case lib/api.ts sends
+ * every request through mockFetch instead of the network. Responses are
+ * real Response objects so the normal error handling path is exercised.
+ *
+ * Configuration (all optional):
+ *   NEXT_PUBLIC_MOCK_LATENCY_MS       base latency per request (default 600)
+ *   NEXT_PUBLIC_MOCK_ERROR_RATE       probability 0-1 of an injected failure (default 0)
+ *   NEXT_PUBLIC_MOCK_ERROR            HTTP status to inject, or "network" (default 500)
+ *   NEXT_PUBLIC_MOCK_ERROR_ENDPOINTS  comma-separated endpoints to fail, e.g. "search,catalog/upsert"
+ */
+
+import type {
+  CatalogDeleteResponse,
+  CatalogItem,
+  CatalogListResponse,
+  CatalogUpsertResponse,
+  DetectionResponse,
+  DetectionSegmentationResponse,
+  HealthResponse,
+  SearchFilters,
+  SearchHit,
+  SearchResponse,
+  SearchSessionRecord,
+} from "./api";
+import { CATEGORIES } from "./categories";
+import { normalizedPrice } from "./currency";
+import { MOCK_CATALOG, MOCK_DETECTION_LAYOUT } from "./mockFixtures";
+
+const MOCK_LATENCY_MS = Number(process.env.NEXT_PUBLIC_MOCK_LATENCY_MS ?? 600);
+const MOCK_ERROR_RATE = Number(process.env.NEXT_PUBLIC_MOCK_ERROR_RATE ?? 0);
+const MOCK_ERROR = process.env.NEXT_PUBLIC_MOCK_ERROR || "500";
+const MOCK_ERROR_ENDPOINTS = (process.env.NEXT_PUBLIC_MOCK_ERROR_ENDPOINTS || "")
+  .split(",")
+  .map((endpoint) => endpoint.trim())
+  .filter(Boolean);
+
+const DEFAULT_CATALOG_PAGE_SIZE = 24;
+
+const SESSION_ID_LENGTH = 8;
+const SESSION_ID_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+// The parts of a session's form that make up its search
+const SESSION_QUERY_FIELDS = ["image", "assigned_category", "bbox_json"];
+
+type MockProduct = Omit<SearchHit, "score">;
+
+interface MockCatalogEntry {
+  product: MockProduct;
+  attributes: Record<string, unknown>;
+}
+
+// The indexed catalog keyed by SKU: the fixtures, then anything upserted, minus deletions
+const catalog = new Map<string, MockCatalogEntry>(
+  MOCK_CATALOG.map((product) => [
+    product.pinecone_id,
+    {
+      product,
+      attributes: { name: product.name_english, price: product.price_amount, currency: product.price_unit },
+    },
+  ])
+);
+
+interface MockSession {
+  record: SearchSessionRecord;
+  /** The search request, kept to re-run the session */
+  query: FormData;
+}
+
+// Saved searches keyed by id; like the catalog, they reset on reload
+const sessions = new Map<string, MockSession>();
+
+function json(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function abortError(): DOMException {
+  return new DOMException("The operation was aborted.", "AbortError");
+}
+
+/**
+ * Simulated network latency with ±25% jitter, cut short by an abort.
+ */
+function delay(signal?: AbortSignal | null): Promise<void> {
+  const ms = MOCK_LATENCY_MS * (0.75 + Math.random() * 0.5);
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function shouldInjectError(endpoint: string): boolean {
+  if (MOCK_ERROR_RATE <= 0) return false;
+  if (MOCK_ERROR_ENDPOINTS.length > 0 && !MOCK_ERROR_ENDPOINTS.includes(endpoint)) {
+    return false;
+  }
+  return Math.random() < MOCK_ERROR_RATE;
+}
+
+function injectedError(endpoint: string): Response {
+  if (MOCK_ERROR === "network") {
+    // Mirrors what fetch does when the server is unreachable
+    throw new TypeError("Failed to fetch");
+  }
+  const status = Number(MOCK_ERROR) || 500;
+  if (status === 422) {
+    return json(
+      {
+        detail: [
+          { loc: ["body", "image"], msg: "Injected validation error", type: "value_error" },
+        ],
+      },
+      status
+    );
+  }
+  return json({ detail: `Mock backend: injected ${status} error for /${endpoint}` }, status);
+}
+
+/**
+ * Stable pseudo-random number in [0, 1) derived from a string.
+ */
+function hashToUnit(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+async function getImageSize(image: File): Promise<{ width: number; height: number }> {
+  const bitmap = await createImageBitmap(image);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+}
+
+function layoutObjects(width: number, height: number) {
+  return MOCK_DETECTION_LAYOUT.map((item, index) => ({
+    category: item.category,
+    bbox: {
+      x1: Math.round(item.box[0] * width),
+      y1: Math.round(item.box[1] * height),
+      x2: Math.round(item.box[2] * width),
+      y2: Math.round(item.box[3] * height),
+    },
+    score: item.score,
+    object_id: index,
+  }));
+}
+
+/**
+ * Full-image PNG mask with an opaque ellipse filling the object's box.
+ */
+function generateMask(
+  width: number,
+  height: number,
+  bbox: { x1: number; y1: number; x2: number; y2: number }
+): string {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return "";
+
+  ctx.fillStyle = "#FFFFFF";
+  ctx.beginPath();
+  ctx.ellipse(
+    (bbox.x1 + bbox.x2) / 2,
+    (bbox.y1 + bbox.y2) / 2,
+    (bbox.x2 - bbox.x1) / 2,
+    (bbox.y2 - bbox.y1) / 2,
+    0,
+    0,
+    Math.PI * 2
+  );
+  ctx.fill();
+
+  return canvas.toDataURL("image/png").replace(/^data:image\/png;base64,/, "");
+}
+
+function health(): Response {
+  return json({ status: "ok" } satisfies HealthResponse);
+}
+
+async function detect(form: FormData): Promise<Response> {
+  const image = form.get("image");
+  if (!(image instanceof File)) {
+    return json({ detail: [{ loc: ["body", "image"], msg: "Field required", type: "missing" }] }, 422);
+  }
+  const { width, height } = await getImageSize(image);
+  return json({
+    objects: layoutObjects(width, height),
+    image_width: width,
+    image_height: height,
+  } satisfies DetectionResponse);
+}
+
+async function detectAndSegment(form: FormData): Promise<Response> {
+  const image = form.get("image");
+  if (!(image instanceof File)) {
+    return json({ detail: [{ loc: ["body", "image"], msg: "Field required", type: "missing" }] }, 422);
+  }
+  const { width, height } = await getImageSize(image);
+  return json({
+    objects: layoutObjects(width, height).map((obj) => ({
+      ...obj,
+      mask_base64: generateMask(width, height, obj.bbox),
+    })),
+    image_width: width,
+    image_height: height,
+  } satisfies DetectionSegmentationResponse);
+}
+
+function search(form: FormData): Response {
+  const image = form.get("image");
+  if (!(image instanceof File)) {
+    return json({ detail: [{ loc: ["body", "image"], msg: "Field required", type: "missing" }] }, 422);
+  }
+  const category = form.get("assigned_category")?.toString() || null;
+  const topK = Number(form.get("top_k") ?? 20) || 20;
+  const bboxJson = form.get("bbox_json")?.toString();
+  if (bboxJson) {
+    try {
+      JSON.parse(bboxJson);
+    } catch {
+      return json({ detail: [{ loc: ["body", "bbox_json"], msg: "Invalid JSON", type: "value_error" }] }, 422);
+    }
+  }
+  let filters: SearchFilters = {};
+  const filtersJson = form.get("filters_json")?.toString();
+  if (filtersJson) {
+    try {
+      filters = JSON.parse(filtersJson);
+    } catch {
+      return json({ detail: [{ loc: ["body", "filters_json"], msg: "Invalid JSON", type: "value_error" }] }, 422);
+    }
+  }
+
+  const products = Array.from(catalog.values(), (entry) => entry.product);
+  const candidates = products.filter((item) => {
+    if (category && item.category !== category) return false;
+    if (filters.active_only && item.is_active === false) return false;
+    const price = normalizedPrice(item);
+    if (filters.price_min !== undefined && (price == null || price < filters.price_min)) return false;
+    if (filters.price_max !== undefined && (price == null || price > filters.price_max)) return false;
+    if (filters.stores?.length && (!item.store || !filters.stores.includes(item.store))) return false;
+    if (
+      filters.countries?.length &&
+      !(item.countries ?? []).some((country) => filters.countries!.includes(country))
+    ) {
+      return false;
+    }
+    return true;
+  });
+
+  // Scores depend on the uploaded image (and region) so different queries rank differently
+  const imageKey = `${image.name}:${image.size}:${bboxJson ?? ""}`;
+  const hits = candidates
+    .map((item) => ({
+      ...item,
+      score: Number((0.55 + hashToUnit(`${imageKey}:${item.pinecone_id}`) * 0.44).toFixed(4)),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+
+  return json({
+    query_category: category,
+    hits,
+    message:
+      hits.length === 0
+        ? filtersJson
+          ? "No products match the selected filters"
+          : `No products found in category "${category}"`
+        : null,
+  } satisfies SearchResponse);
+}
+
+function upsert(form: FormData): Response {
+  const skuId = form.get("sku_id")?.toString().trim() || "";
+  const category = form.get("category")?.toString() || "";
+  const image = form.get("image");
+  const attributesJson = form.get("attributes_json")?.toString();
+
+  const errors: { loc: string[]; msg: string; type: string }[] = [];
+  if (!skuId) {
+    errors.push({ loc: ["body", "sku_id"], msg: "Field required", type: "missing" });
+  }
+  if (!CATEGORIES.includes(category)) {
+    errors.push({ loc: ["body", "category"], msg: `Unknown category "${category}"`, type: "value_error" });
+  }
+  if (!(image instanceof File)) {
+    errors.push({ loc: ["body", "image"], msg: "Field required", type: "missing" });
+  }
+  let attributes: Record<string, unknown> = {};
+  if (attributesJson) {
+    try {
+      const parsed: unknown = JSON.parse(attributesJson);
+      if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+        attributes = parsed as Record<string, unknown>;
+      } else {
+        errors.push({ loc: ["body", "attributes_json"], msg: "Must be a JSON object", type: "value_error" });
+      }
+    } catch {
+      errors.push({ loc: ["body", "attributes_json"], msg: "Invalid JSON", type: "value_error" });
+    }
+  }
+  if (errors.length > 0) {
+    return json({ detail: errors }, 422);
+  }
+
+  // Re-upserting a SKU keeps the store details, which the attributes do not cover
+  const previous = catalog.get(skuId)?.product;
+  // The replaced upload's object URL would otherwise live until reload
+  if (previous?.image_url?.startsWith("blob:")) URL.revokeObjectURL(previous.image_url);
+  catalog.set(skuId, {
+    product: {
+      pinecone_id: skuId,
+      image_url: URL.createObjectURL(image as File),
+      product_url: previous?.product_url ?? null,
+      name_english: typeof attributes.name === "string" ? attributes.name : skuId,
+      name_arabic: previous?.name_arabic ?? null,
+      category,
+      price_amount: typeof attributes.price === "number" ? attributes.price : null,
+      price_unit: typeof attributes.currency === "string" ? attributes.currency : null,
+      is_active: true,
+      store_id: previous?.store_id ?? null,
+      countries: previous?.countries ?? null,
+      store: previous?.store ?? null,
+    },
+    attributes,
+  });
+
+  return json({
+    sku_id: skuId,
+    image_id: `mock-image-${skuId}`,
+    upserted: true,
+  } satisfies CatalogUpsertResponse);
+}
+
+function toCatalogItem(skuId: string, entry: MockCatalogEntry): CatalogItem {
+  return {
+    sku_id: skuId,
+    category: entry.product.category ?? "",
+    image_url: entry.product.image_url ?? null,
+    attributes: entry.attributes,
+  };
+}
+
+function listCatalog(params: URLSearchParams): Response {
+  const category = params.get("category");
+  const offset = Math.max(0, Number(params.get("offset") ?? 0) || 0);
+  const limit = Math.max(1, Number(params.get("limit") ?? DEFAULT_CATALOG_PAGE_SIZE) || DEFAULT_CATALOG_PAGE_SIZE);
+  const items = Array.from(catalog, ([skuId, entry]) => toCatalogItem(skuId, entry)).filter(
+    (item) => !category || item.category === category
+  );
+
+  return json({
+    items: items.slice(offset, offset + limit),
+    total: items.length,
+    offset,
+    limit,
+  } satisfies CatalogListResponse);
+}
+
+function getCatalogItem(skuId: string): Response {
+  const entry = catalog.get(skuId);
+  if (!entry) return json({ detail: `SKU "${skuId}" not found` }, 404);
+  return json(toCatalogItem(skuId, entry) satisfies CatalogItem);
+}
+
+function deleteCatalogItem(skuId: string): Response {
+  if (!catalog.delete(skuId)) return json({ detail: `SKU "${skuId}" not found` }, 404);
+  return json({ sku_id: skuId, deleted: true } satisfies CatalogDeleteResponse);
+}
+
+/**
+ * Random base62 id, short enough to read out or paste
+ */
+function createSessionId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SESSION_ID_LENGTH));
+  // 256 is not a multiple of 62, the slight bias does not matter for ids
+  return Array.from(bytes, (byte) => SESSION_ID_ALPHABET[byte % SESSION_ID_ALPHABET.length]).join("");
+}
+
+function parseJsonField<T>(form: FormData, field: string, fallback: T): T | Response {
+  const value = form.get(field)?.toString();
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return json({ detail: [{ loc: ["body", field], msg: "Invalid JSON", type: "value_error" }] }, 422);
+  }
+}
+
+function createSession(form: FormData): Response {
+  if (!(form.get("image") instanceof File)) {
+    return json({ detail: [{ loc: ["body", "image"], msg: "Field required", type: "missing" }] }, 422);
+  }
+  const hits = parseJsonField<SearchHit[]>(form, "hits_json", []);
+  if (hits instanceof Response) return hits;
+  const selection = parseJsonField<SearchSessionRecord["selection"]>(form, "selection_json", null);
+  if (selection instanceof Response) return selection;
+
+  const query = new FormData();
+  for (const field of SESSION_QUERY_FIELDS) {
+    const value = form.get(field);
+    if (value !== null) query.append(field, value);
+  }
+  const record: SearchSessionRecord = {
+    id: createSessionId(),
+    created_at: new Date().toISOString(),
+    thumbnail: form.get("thumbnail")?.toString() || null,
+    category: form.get("assigned_category")?.toString() || null,
+    selection,
+    hits,
+    message: form.get("message")?.toString() || null,
+    top_k: Number(form.get("top_k")) || null,
+  };
+  sessions.set(record.id, { record, query });
+  return json(record);
+}
+
+function getSession(id: string): Response {
+  const session = sessions.get(id);
+  if (!session) return json({ detail: `Session "${id}" not found` }, 404);
+  return json(session.record);
+}
+
+/**
+ * Run the session's stored search with the given top_k and filters
+ */
+function rerunSession(id: string, form: FormData): Response {
+  const session = sessions.get(id);
+  if (!session) return json({ detail: `Session "${id}" not found` }, 404);
+  const searchForm = new FormData();
+  session.query.forEach((value, key) => searchForm.append(key, value));
+  form.forEach((value, key) => searchForm.append(key, value));
+  return search(searchForm);
+}
+
+function updateSession(id: string, form: FormData): Response {
+  const session = sessions.get(id);
+  if (!session) return json({ detail: `Session "${id}" not found` }, 404);
+  const hits = parseJsonField<SearchHit[]>(form, "hits_json", session.record.hits);
+  if (hits instanceof Response) return hits;
+  session.record = { ...session.record, hits, top_k: Number(form.get("top_k")) || session.record.top_k };
+  return json(session.record);
+}
+
+/**
+ * Drop-in replacement for fetch that serves the /api/v1 endpoints locally.
+ */
+export async function mockFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const url = new URL(input, "http://mock.local");
+  const endpoint = url.pathname.replace(/^\/api\/v1\//, "");
+  const form = init.body instanceof FormData ? init.body : new FormData();
+
+  await delay(init.signal);
+
+  if (shouldInjectError(endpoint)) {
+    return injectedError(endpoint);
+  }
+
+  switch (endpoint) {
+    case "health":
+      return health();
+    case "detect":
+      return detect(form);
+    case "detect-and-segment":
+      return detectAndSegment(form);
+    case "search":
+      return search(form);
+    case "catalog/upsert":
+      return upsert(form);
+    case "catalog/items":
+      return listCatalog(url.searchParams);
+  }
+
+  if (endpoint === "sessions") {
+    return createSession(form);
+  }
+  const rerunMatch = endpoint.match(/^sessions\/([^/]+)\/search$/);
+  if (rerunMatch) {
+    return rerunSession(decodeURIComponent(rerunMatch[1]), form);
+  }
+  const sessionMatch = endpoint.match(/^sessions\/([^/]+)$/);
+  if (sessionMatch) {
+    const id = decodeURIComponent(sessionMatch[1]);
+    return init.method === "PATCH" ? updateSession(id, form) : getSession(id);
+  }
+
+  const itemMatch = endpoint.match(/^catalog\/items\/([^/]+)$/);
+  if (itemMatch) {
+    const skuId = decodeURIComponent(itemMatch[1]);
+    return init.method === "DELETE" ? deleteCatalogItem(skuId) : getCatalogItem(skuId);
+  }
+  return json({ detail: "Not Found" }, 404);
+}
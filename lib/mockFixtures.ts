@@ -0,0 +1,78 @@
+/**
+ * Fixture data for the mock backend (see lib/mockBackend.ts)
+ */
+
+import type { SearchHit } from "./api";
+
+type FixtureProduct = Omit<SearchHit, "score">;
+
+function product(
+  id: string,
+  category: string,
+  image: string,
+  nameEnglish: string,
+  nameArabic: string,
+  price: number,
+  unit: string,
+  store: string,
+  storeId: number,
+  countries: string[],
+  isActive: boolean = true
+): FixtureProduct {
+  return {
+    pinecone_id: id,
+    image_url: `/mock/${image}.svg`,
+    product_url: `https://example.com/${store.toLowerCase().replace(/\s+/g, "-")}/${id}`,
+    name_english: nameEnglish,
+    name_arabic: nameArabic,
+    category,
+    price_amount: price,
+    price_unit: unit,
+    is_active: isActive,
+    store_id: storeId,
+    countries,
+    store,
+  };
+}
+
+/**
+ * Initial catalog served by /search and /catalog/items. The mock catalog
+ * endpoints add, replace and delete items at runtime.
+ */
+export const MOCK_CATALOG: FixtureProduct[] = [
+  product("mock-sofa-001", "sofa", "sofa", "Linen Three-Seater Sofa", "كنبة كتان بثلاثة مقاعد", 3499, "SAR", "Home Centre", 1, ["SA", "AE"]),
+  product("mock-sofa-002", "sofa", "sofa", "Velvet Chesterfield Sofa", "كنبة تشسترفيلد مخملية", 5200, "AED", "Pan Emirates", 2, ["AE"]),
+  product("mock-sofa-003", "sofa", "sofa", "Modular Fabric Sofa", "كنبة قماش معيارية", 899, "USD", "IKEA", 3, ["SA", "AE", "KW"]),
+  product("mock-sofa-004", "2-seater-sofa", "sofa", "Compact Loveseat", "كنبة مقعدين صغيرة", 1799, "SAR", "Home Box", 4, ["SA"]),
+  product("mock-sofa-005", "l-shape-sofa", "sofa", "Corner Sectional Sofa", "كنبة زاوية", 6450, "SAR", "Home Centre", 1, ["SA", "AE"], false),
+  product("mock-chair-001", "chair", "chair", "Oak Dining Chair", "كرسي طعام من خشب البلوط", 450, "SAR", "IKEA", 3, ["SA", "AE", "KW"]),
+  product("mock-chair-002", "chair", "chair", "Rattan Accent Chair", "كرسي راتان", 1250, "AED", "Pan Emirates", 2, ["AE"]),
+  product("mock-chair-003", "office-chair", "chair", "Ergonomic Mesh Chair", "كرسي مكتب شبكي", 320, "USD", "Office Hub", 5, ["SA"]),
+  product("mock-bed-001", "bed", "bed", "King Upholstered Bed", "سرير كينج منجد", 4200, "SAR", "Home Box", 4, ["SA"]),
+  product("mock-bed-002", "bed", "bed", "Walnut Platform Bed", "سرير خشب الجوز", 3900, "AED", "Pan Emirates", 2, ["AE", "KW"]),
+  product("mock-lamp-001", "lighting", "lamp", "Brass Floor Lamp", "مصباح أرضي نحاسي", 680, "SAR", "Home Centre", 1, ["SA", "AE"]),
+  product("mock-lamp-002", "lampshade", "lamp", "Pleated Table Lamp", "مصباح طاولة مطوي", 210, "SAR", "IKEA", 3, ["SA"]),
+  product("mock-lamp-003", "floor-stand", "lamp", "Arc Floor Lamp", "مصباح أرضي مقوس", 150, "USD", "Lighting Co", 6, ["AE"]),
+  product("mock-table-001", "center-table", "table", "Marble Coffee Table", "طاولة قهوة رخام", 1450, "SAR", "Home Centre", 1, ["SA", "AE"]),
+  product("mock-table-002", "side-table", "table", "Round Side Table", "طاولة جانبية دائرية", 299, "AED", "Home Box", 4, ["AE"]),
+  product("mock-table-003", "dining-table", "table", "Six-Seat Dining Table", "طاولة طعام لستة أشخاص", 2899, "SAR", "IKEA", 3, ["SA", "KW"]),
+  product("mock-carpet-001", "carpet", "carpet", "Hand-Knotted Wool Rug", "سجادة صوف معقودة يدويا", 2100, "SAR", "Carpet Gallery", 7, ["SA"]),
+  product("mock-carpet-002", "carpet", "carpet", "Flatweave Kilim Rug", "سجادة كليم", 95, "USD", "IKEA", 3, ["SA", "AE", "KW"]),
+  product("mock-vase-001", "vase", "vase", "Ceramic Bud Vase", "مزهرية سيراميك", 89, "SAR", "Home Centre", 1, ["SA", "AE"]),
+  product("mock-plant-001", "flower-pot-and-plant", "plant", "Potted Fiddle Leaf Fig", "نبتة تين في أصيص", 240, "AED", "Green Corner", 8, ["AE"]),
+];
+
+/**
+ * Objects reported by /detect and /detect-and-segment, with boxes given
+ * as fractions of the uploaded image so they scale to any photo.
+ */
+export const MOCK_DETECTION_LAYOUT: {
+  category: string;
+  box: [number, number, number, number];
+  score: number;
+}[] = [
+  { category: "sofa", box: [0.18, 0.48, 0.72, 0.86], score: 0.94 },
+  { category: "lighting", box: [0.78, 0.12, 0.93, 0.78], score: 0.88 },
+  { category: "center-table", box: [0.35, 0.72, 0.62, 0.92], score: 0.81 },
+  { category: "flower-pot-and-plant", box: [0.03, 0.35, 0.16, 0.85], score: 0.67 },
+];
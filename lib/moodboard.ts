@@ -0,0 +1,274 @@
+/**
+ * Moodboard model: products, images and notes placed on a fixed-size
+ * board, stored in IndexedDB, plus drag-and-drop payloads and PNG export.
+ *
+ * Item positions are in board pixels (BOARD_WIDTH x BOARD_HEIGHT), so the
+ * on-screen board and the exported image share one layout.
+ */
+
+import type { SearchHit } from "./api";
+import { isIndexedDbAvailable, promisifyRequest, STORES, withStore } from "./idb";
+
+export const BOARD_WIDTH = 1200;
+export const BOARD_HEIGHT = 800;
+
+/** dataTransfer type carrying a NewMoodboardItem as JSON */
+export const MOODBOARD_DRAG_TYPE = "application/x-moodboard-item";
+
+// Only one board for now
+const BOARD_ID = "default";
+
+export const ITEM_WIDTHS = {
+  product: 180,
+  image: 320,
+  note: 220,
+} as const;
+
+// Shared by the board and the PNG export so both lay out captions alike
+export const ITEM_PADDING = 8;
+export const CAPTION_LINE_HEIGHT = 18;
+
+// Exported image resolution relative to board pixels
+const EXPORT_SCALE = 2;
+const NOTE_BACKGROUND = "#fef9c3";
+const BORDER_COLOR = "#e5e5e5";
+const PLACEHOLDER_COLOR = "#f5f5f5";
+
+export type NewMoodboardItem =
+  | { kind: "product"; hit: SearchHit }
+  // Room photo or object crop; src is a data URL
+  | { kind: "image"; src: string; label: string }
+  | { kind: "note"; text: string };
+
+export type MoodboardItem = NewMoodboardItem & {
+  id: string;
+  x: number;
+  y: number;
+};
+
+interface StoredMoodboard {
+  id: string;
+  items: MoodboardItem[];
+  updatedAt: number;
+}
+
+export async function getMoodboardItems(): Promise<MoodboardItem[]> {
+  if (!isIndexedDbAvailable()) return [];
+  try {
+    return await withStore(STORES.moodboards, "readonly", async (store) => {
+      const board = await promisifyRequest<StoredMoodboard | undefined>(store.get(BOARD_ID));
+      return board?.items ?? [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export async function saveMoodboardItems(items: MoodboardItem[]): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await withStore(STORES.moodboards, "readwrite", (store) => {
+      store.put({ id: BOARD_ID, items, updatedAt: Date.now() } satisfies StoredMoodboard);
+    });
+  } catch {
+    // The board on screen is unchanged; only the saved copy is stale
+  }
+}
+
+/**
+ * Append an item to the stored board, e.g. when dropped outside the board page
+ */
+export async function addToMoodboard(item: NewMoodboardItem): Promise<void> {
+  const items = await getMoodboardItems();
+  await saveMoodboardItems([...items, placeItem(item, items)]);
+}
+
+/**
+ * Give a new item an id and a position: the drop point if known,
+ * otherwise cascaded from the top-left corner. Kept inside the board.
+ */
+export function placeItem(
+  item: NewMoodboardItem,
+  existing: MoodboardItem[],
+  position?: { x: number; y: number }
+): MoodboardItem {
+  const step = (existing.length % 10) * 24;
+  return {
+    ...item,
+    id: crypto.randomUUID(),
+    ...clampPosition(item, position ?? { x: 24 + step, y: 24 + step }),
+  };
+}
+
+export function clampPosition(item: NewMoodboardItem, position: { x: number; y: number }) {
+  return {
+    x: Math.round(Math.min(Math.max(0, position.x), BOARD_WIDTH - ITEM_WIDTHS[item.kind])),
+    y: Math.round(Math.min(Math.max(0, position.y), BOARD_HEIGHT - 40)),
+  };
+}
+
+export function setMoodboardDragData(dataTransfer: DataTransfer, item: NewMoodboardItem): void {
+  dataTransfer.setData(MOODBOARD_DRAG_TYPE, JSON.stringify(item));
+  dataTransfer.effectAllowed = "copy";
+}
+
+/**
+ * Whether a drag carries a moodboard item; the payload itself is only
+ * readable on drop
+ */
+export function hasMoodboardDragData(dataTransfer: DataTransfer): boolean {
+  return dataTransfer.types.includes(MOODBOARD_DRAG_TYPE);
+}
+
+export function readMoodboardDragData(dataTransfer: DataTransfer): NewMoodboardItem | null {
+  try {
+    const parsed = JSON.parse(dataTransfer.getData(MOODBOARD_DRAG_TYPE));
+    return parsed && typeof parsed.kind === "string" ? (parsed as NewMoodboardItem) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Draw the board as a PNG. Product images that cannot be loaded with CORS
+ * are drawn as placeholders so they cannot taint the canvas.
+ * @param describeProduct Caption lines for a product (name, price, store)
+ */
+export async function renderMoodboardPng(
+  items: MoodboardItem[],
+  describeProduct: (hit: SearchHit) => string[]
+): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  canvas.width = BOARD_WIDTH * EXPORT_SCALE;
+  canvas.height = BOARD_HEIGHT * EXPORT_SCALE;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas context not available");
+
+  ctx.scale(EXPORT_SCALE, EXPORT_SCALE);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, BOARD_WIDTH, BOARD_HEIGHT);
+  ctx.textBaseline = "top";
+
+  const images = await Promise.all(
+    items.map((item) =>
+      item.kind === "product"
+        ? loadExportImage(item.hit.image_url)
+        : item.kind === "image"
+          ? loadExportImage(item.src)
+          : Promise.resolve(null)
+    )
+  );
+
+  items.forEach((item, index) => {
+    const image = images[index];
+    const width = ITEM_WIDTHS[item.kind];
+
+    if (item.kind === "note") {
+      ctx.font = "14px sans-serif";
+      const lines = wrapText(ctx, item.text, width - ITEM_PADDING * 2);
+      const height = lines.length * CAPTION_LINE_HEIGHT + ITEM_PADDING * 2;
+      ctx.fillStyle = NOTE_BACKGROUND;
+      ctx.fillRect(item.x, item.y, width, height);
+      ctx.fillStyle = "#404040";
+      lines.forEach((line, i) => {
+        ctx.fillText(line, item.x + ITEM_PADDING, item.y + ITEM_PADDING + i * CAPTION_LINE_HEIGHT);
+      });
+      return;
+    }
+
+    if (item.kind === "image") {
+      const height = image ? (width * image.height) / image.width : width * 0.75;
+      drawImageOrPlaceholder(ctx, image, item.x, item.y, width, height);
+      return;
+    }
+
+    const lines = describeProduct(item.hit);
+    const height = width + ITEM_PADDING * 2 + lines.length * CAPTION_LINE_HEIGHT;
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(item.x, item.y, width, height);
+    ctx.strokeStyle = BORDER_COLOR;
+    ctx.strokeRect(item.x + 0.5, item.y + 0.5, width - 1, height - 1);
+    drawImageOrPlaceholder(ctx, image, item.x, item.y, width, width);
+    lines.forEach((line, i) => {
+      ctx.font = i === 0 ? "600 13px sans-serif" : "12px sans-serif";
+      ctx.fillStyle = i === 0 ? "#171717" : "#525252";
+      ctx.fillText(
+        truncateText(ctx, line, width - ITEM_PADDING * 2),
+        item.x + ITEM_PADDING,
+        item.y + width + ITEM_PADDING + i * CAPTION_LINE_HEIGHT
+      );
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Image export failed"))), "image/png");
+  });
+}
+
+function loadExportImage(src: string | null | undefined): Promise<HTMLImageElement | null> {
+  if (!src) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+}
+
+/**
+ * Draw an image cropped to fill the box, like CSS object-cover
+ */
+function drawImageOrPlaceholder(
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement | null,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  if (!image) {
+    ctx.fillStyle = PLACEHOLDER_COLOR;
+    ctx.fillRect(x, y, width, height);
+    return;
+  }
+  const scale = Math.max(width / image.width, height / image.height);
+  const sourceWidth = width / scale;
+  const sourceHeight = height / scale;
+  ctx.drawImage(
+    image,
+    (image.width - sourceWidth) / 2,
+    (image.height - sourceHeight) / 2,
+    sourceWidth,
+    sourceHeight,
+    x,
+    y,
+    width,
+    height
+  );
+}
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function truncateText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end -= 1;
+  return `${text.slice(0, end)}…`;
+}
@@ -0,0 +1,170 @@
+/**
+ * Local history of past uploads, stored in IndexedDB under the image's
+ * SHA-256 so uploading the same photo again adds to its existing entry.
+ *
+ * Each entry keeps the processed image, its detections (so the overlays
+ * can be restored without calling the backend) and the searches run on
+ * it. The least recently used entries are dropped past
+ * MAX_HISTORY_ENTRIES. All functions fail soft: if IndexedDB is
+ * unavailable nothing is recorded and the history is empty.
+ */
+
+import type { BBox, DetectionSegmentationResponse, SearchHit } from "./api";
+import { isIndexedDbAvailable, promisifyRequest, STORES, withStore } from "./idb";
+import { createThumbnail } from "./imageUtils";
+
+// Entries hold full-resolution masks, so keep the history short
+const MAX_HISTORY_ENTRIES = 20;
+const MAX_SEARCHES_PER_ENTRY = 20;
+
+export interface HistorySearch {
+  /** Detected object that was searched, or null for a drawn region */
+  objectId: number | null;
+  category: string | null;
+  bbox: BBox;
+  drawn: boolean;
+  hits: SearchHit[];
+  /** Saved results page for this search, see lib/searchSessions.ts */
+  sessionId: string | null;
+  searchedAt: number;
+}
+
+export interface HistoryEntry {
+  /** SHA-256 of the processed image */
+  id: string;
+  fileName: string;
+  image: Blob;
+  /** Small JPEG data URL of the image */
+  thumbnail: string | null;
+  detection: DetectionSegmentationResponse;
+  /** Newest first */
+  searches: HistorySearch[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * All entries, most recently used first
+ */
+export async function listHistory(): Promise<HistoryEntry[]> {
+  if (!isIndexedDbAvailable()) return [];
+  try {
+    const entries = await withStore(STORES.searchHistory, "readonly", (store) =>
+      promisifyRequest<HistoryEntry[]>(store.index("updatedAt").getAll())
+    );
+    return entries.reverse();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Record an upload and its detections, keeping any searches already
+ * recorded for the same image.
+ */
+export async function recordHistoryUpload(
+  id: string,
+  image: File,
+  detection: DetectionSegmentationResponse
+): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  let thumbnail: string | null = null;
+  try {
+    thumbnail = await createThumbnail(image);
+  } catch {
+    // The entry is still usable without a preview
+  }
+
+  try {
+    await withStore(STORES.searchHistory, "readwrite", async (store) => {
+      const existing = await promisifyRequest<HistoryEntry | undefined>(store.get(id));
+      const now = Date.now();
+      const entry: HistoryEntry = {
+        id,
+        fileName: image.name,
+        image,
+        thumbnail: thumbnail ?? existing?.thumbnail ?? null,
+        detection,
+        searches: existing?.searches ?? [],
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      store.put(entry);
+      await evict(store);
+    });
+  } catch {
+    // History is best-effort; the upload itself is unaffected
+  }
+}
+
+/**
+ * Add a search to an entry, replacing an earlier search of the same
+ * object or region.
+ */
+export async function recordHistorySearch(id: string, search: HistorySearch): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await withStore(STORES.searchHistory, "readwrite", async (store) => {
+      const entry = await promisifyRequest<HistoryEntry | undefined>(store.get(id));
+      if (!entry) return;
+      const searches = [search, ...entry.searches.filter((other) => !isSameTarget(other, search))];
+      store.put({
+        ...entry,
+        searches: searches.slice(0, MAX_SEARCHES_PER_ENTRY),
+        updatedAt: Date.now(),
+      });
+    });
+  } catch {
+    // The search is still shown, just not recorded
+  }
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await withStore(STORES.searchHistory, "readwrite", (store) => {
+      store.delete(id);
+    });
+  } catch {
+    // Already removed from the list; it reappears on the next load
+  }
+}
+
+export async function clearHistory(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await withStore(STORES.searchHistory, "readwrite", (store) => {
+      store.clear();
+    });
+  } catch {
+    // As with a single delete, the entries reappear on the next load
+  }
+}
+
+function isSameTarget(a: HistorySearch, b: HistorySearch): boolean {
+  if (a.drawn !== b.drawn) return false;
+  if (!a.drawn) return a.objectId === b.objectId;
+  return (
+    a.category === b.category &&
+    a.bbox.x1 === b.bbox.x1 &&
+    a.bbox.y1 === b.bbox.y1 &&
+    a.bbox.x2 === b.bbox.x2 &&
+    a.bbox.y2 === b.bbox.y2
+  );
+}
+
+/**
+ * Remove the least recently used entries until at most
+ * MAX_HISTORY_ENTRIES remain.
+ */
+async function evict(store: IDBObjectStore): Promise<void> {
+  const count = await promisifyRequest(store.count());
+  if (count <= MAX_HISTORY_ENTRIES) return;
+
+  const oldest = await promisifyRequest<HistoryEntry[]>(
+    store.index("updatedAt").getAll(null, count - MAX_HISTORY_ENTRIES)
+  );
+  for (const entry of oldest) {
+    store.delete(entry.id);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Saved searches, stored on the backend under a short id so a result set
+ * can be reopened at /results/[id], in any browser, without packing it
+ * into the URL.
+ *
+ * Sessions saved or opened here are also cached in IndexedDB so a link
+ * still opens while the backend is unreachable; the cache keeps the
+ * MAX_CACHED_SESSIONS newest. Cache reads and writes fail soft.
+ */
+
+import {
+  ApiError,
+  createSearchSession,
+  fetchSearchSession,
+  patchSearchSession,
+  SearchHit,
+  SearchQuery,
+  SearchSessionRecord,
+  SessionSelection,
+} from "./api";
+import { isIndexedDbAvailable, promisifyRequest, STORES, withStore } from "./idb";
+
+const MAX_CACHED_SESSIONS = 100;
+
+export interface SearchSession {
+  id: string;
+  createdAt: number;
+  /** Small JPEG data URL of the query image */
+  thumbnail: string | null;
+  /** Category filter the search ran with */
+  category: string | null;
+  /** Selected object or drawn region, in original image pixels */
+  selection: SessionSelection | null;
+  hits: SearchHit[];
+  message: string | null;
+  /** top_k of the latest page fetched; missing on sessions saved before exports */
+  topK?: number;
+}
+
+export interface NewSearchSession extends Omit<SearchSession, "id" | "createdAt"> {
+  /** The search as sent, kept by the backend so the session can be re-run */
+  query: SearchQuery;
+}
+
+function fromRecord(record: SearchSessionRecord): SearchSession {
+  return {
+    id: record.id,
+    createdAt: Date.parse(record.created_at) || Date.now(),
+    thumbnail: record.thumbnail ?? null,
+    category: record.category ?? null,
+    selection: record.selection ?? null,
+    hits: record.hits,
+    message: record.message ?? null,
+    topK: record.top_k ?? undefined,
+  };
+}
+
+/**
+ * Save a search and return its id, or null if the backend did not store it
+ */
+export async function saveSearchSession({ query, ...session }: NewSearchSession): Promise<string | null> {
+  try {
+    const record = await createSearchSession(query, {
+      thumbnail: session.thumbnail,
+      selection: session.selection,
+      hits: session.hits,
+      message: session.message,
+      top_k: session.topK,
+    });
+    const saved = fromRecord(record);
+    void cacheSession(saved);
+    return saved.id;
+  } catch {
+    // No link is offered without a stored session
+    return null;
+  }
+}
+
+/**
+ * Load a saved search; null if the backend does not know the id. Throws
+ * the ApiError if the backend cannot be reached and no copy is cached.
+ */
+export async function getSearchSession(id: string): Promise<SearchSession | null> {
+  try {
+    const session = fromRecord(await fetchSearchSession(id));
+    void cacheSession(session);
+    return session;
+  } catch (error) {
+    if (error instanceof ApiError && error.kind === "not-found") return null;
+    const cached = await readCachedSession(id);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * Replace the hits of a saved search, e.g. after loading more results
+ */
+export async function updateSearchSessionHits(id: string, hits: SearchHit[], topK: number): Promise<void> {
+  try {
+    void cacheSession(fromRecord(await patchSearchSession(id, { hits, top_k: topK })));
+  } catch {
+    // The link keeps showing the first page
+  }
+}
+
+async function readCachedSession(id: string): Promise<SearchSession | null> {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    return await withStore(STORES.searchSessions, "readonly", async (store) => {
+      const entry = await promisifyRequest<SearchSession | undefined>(store.get(id));
+      return entry ?? null;
+    });
+  } catch {
+    return null;
+  }
+}
+
+async function cacheSession(session: SearchSession): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await withStore(STORES.searchSessions, "readwrite", async (store) => {
+      store.put(session);
+      await evict(store);
+    });
+  } catch {
+    // Uncached sessions are still served by the backend
+  }
+}
+
+/**
+ * Remove the oldest cached sessions until at most MAX_CACHED_SESSIONS remain.
+ */
+async function evict(store: IDBObjectStore): Promise<void> {
+  const count = await promisifyRequest(store.count());
+  if (count <= MAX_CACHED_SESSIONS) return;
+
+  const oldest = await promisifyRequest<IDBValidKey[]>(
+    store.index("createdAt").getAllKeys(null, count - MAX_CACHED_SESSIONS)
+  );
+  for (const key of oldest) {
+    store.delete(key);
+  }
+}
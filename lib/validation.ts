@@ -0,0 +1,92 @@
+/**
+ * Minimal runtime schema validation for backend responses.
+ *
+ * A schema is a function that checks an unknown value and returns it
+ * typed (and normalised), or throws a SchemaError naming the offending path.
+ */
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export class SchemaError extends Error {
+  constructor(
+    public path: string,
+    public expected: string,
+    public received: unknown
+  ) {
+    super(`Expected ${expected} at "${path}" but received ${describe(received)}`);
+    this.name = "SchemaError";
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (value === undefined) return "nothing";
+  if (Array.isArray(value)) return "an array";
+  return typeof value === "object" ? "an object" : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+export const string: Schema<string> = (value, path) => {
+  if (typeof value !== "string") throw new SchemaError(path, "a string", value);
+  return value;
+};
+
+export const number: Schema<number> = (value, path) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new SchemaError(path, "a number", value);
+  }
+  return value;
+};
+
+export const boolean: Schema<boolean> = (value, path) => {
+  if (typeof value !== "boolean") throw new SchemaError(path, "a boolean", value);
+  return value;
+};
+
+/**
+ * Any JSON object; its contents are passed through unchecked.
+ */
+export const jsonObject: Schema<Record<string, unknown>> = (value, path) => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new SchemaError(path, "an object", value);
+  }
+  return value as Record<string, unknown>;
+};
+
+/**
+ * Accepts a missing or null value and normalises it to null.
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === undefined || value === null ? null : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, "an array", value);
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+/**
+ * Validates the listed fields and returns a new object holding only those.
+ */
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new SchemaError(path || "(root)", "an object", value);
+    }
+    const input = value as Record<string, unknown>;
+    const result = {} as T;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      result[key] = shape[key](input[key], join(path, key));
+    }
+    return result;
+  };
+}
+
+export function parse<T>(schema: Schema<T>, value: unknown): T {
+  return schema(value, "");
+}